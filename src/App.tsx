@@ -8,8 +8,14 @@ import { Layout } from "./components/Layout";
 import Dashboard from "./pages/Dashboard";
 import CashFlow from "./pages/CashFlow";
 import Clients from "./pages/Clients";
+import ClientDetail from "./pages/ClientDetail";
 import Services from "./pages/Services";
 import CalendarPage from "./pages/Calendar";
+import Reports from "./pages/Reports";
+import Receivables from "./pages/Receivables";
+import Quotes from "./pages/Quotes";
+import Documents from "./pages/Documents";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,9 +33,14 @@ const App = () => (
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/caixa" element={<CashFlow />} />
                 <Route path="/clientes" element={<Clients />} />
+                <Route path="/clientes/:id" element={<ClientDetail />} />
                 <Route path="/servicos" element={<Services />} />
+                <Route path="/orcamentos" element={<Quotes />} />
                 <Route path="/agenda" element={<CalendarPage />} />
-                <Route path="/relatorios" element={<div>Relatórios em desenvolvimento...</div>} />
+                <Route path="/receber" element={<Receivables />} />
+                <Route path="/relatorios" element={<Reports />} />
+                <Route path="/documentos" element={<Documents />} />
+                <Route path="/configuracoes" element={<Settings />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { AccountKind, accountKindLabels } from "@/lib/accounts";
+import { cn } from "@/lib/utils";
+import { Edit, Trash2, Archive, ArchiveRestore, Star } from "lucide-react";
+
+interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  opening_balance: number;
+  closing_day: number | null;
+  due_day: number | null;
+  is_default: boolean;
+  archived: boolean;
+  transactions: { count: number }[];
+}
+
+interface AccountManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  kind: "checking" as AccountKind,
+  opening_balance: "0",
+  closing_day: "",
+  due_day: "",
+};
+
+export function AccountManager({ open, onOpenChange, onChange }: AccountManagerProps) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (open) {
+      fetchAccounts();
+      setEditingAccount(null);
+      setFormData(emptyForm);
+    }
+  }, [open]);
+
+  const fetchAccounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("accounts")
+        .select("*, transactions(count)")
+        .order("archived")
+        .order("name");
+
+      if (error) throw error;
+      setAccounts(data as Account[] || []);
+    } catch (error) {
+      console.error("Erro ao carregar contas:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar contas",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getTransactionCount = (account: Account) => account.transactions[0]?.count ?? 0;
+
+  const refresh = () => {
+    fetchAccounts();
+    onChange();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const accountData = {
+        name: formData.name,
+        kind: formData.kind,
+        opening_balance: parseFloat(formData.opening_balance) || 0,
+        closing_day: formData.kind === "card" ? parseInt(formData.closing_day) : null,
+        due_day: formData.kind === "card" ? parseInt(formData.due_day) : null,
+      };
+
+      if (editingAccount) {
+        const { error } = await supabase
+          .from("accounts")
+          .update(accountData)
+          .eq("id", editingAccount.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Conta atualizada com sucesso",
+        });
+      } else {
+        // A primeira conta recebe os lançamentos gerados automaticamente
+        const { error } = await supabase
+          .from("accounts")
+          .insert([{ ...accountData, is_default: !accounts.some(account => account.is_default) }]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Conta criada com sucesso",
+        });
+      }
+
+      setEditingAccount(null);
+      setFormData(emptyForm);
+      refresh();
+    } catch (error) {
+      console.error("Erro ao salvar conta:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar conta",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setFormData({
+      name: account.name,
+      kind: account.kind,
+      opening_balance: account.opening_balance.toString(),
+      closing_day: account.closing_day?.toString() ?? "",
+      due_day: account.due_day?.toString() ?? "",
+    });
+  };
+
+  const handleSetDefault = async (account: Account) => {
+    try {
+      // Só pode haver uma conta padrão: desmarca a atual antes
+      const { error: unsetError } = await supabase
+        .from("accounts")
+        .update({ is_default: false })
+        .eq("is_default", true);
+
+      if (unsetError) throw unsetError;
+
+      const { error } = await supabase
+        .from("accounts")
+        .update({ is_default: true, archived: false })
+        .eq("id", account.id);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      console.error("Erro ao definir conta padrão:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao definir conta padrão",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleArchive = async (account: Account) => {
+    if (account.is_default && !account.archived) {
+      toast({
+        title: "Erro",
+        description: "Defina outra conta como padrão antes de arquivar esta",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("accounts")
+        .update({ archived: !account.archived })
+        .eq("id", account.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: account.archived ? "Conta reativada" : "Conta arquivada",
+      });
+      refresh();
+    } catch (error) {
+      console.error("Erro ao arquivar conta:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao arquivar conta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (account: Account) => {
+    if (!confirm("Tem certeza que deseja excluir esta conta?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("accounts")
+        .delete()
+        .eq("id", account.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Conta excluída com sucesso",
+      });
+      refresh();
+    } catch (error) {
+      console.error("Erro ao excluir conta:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir conta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contas</DialogTitle>
+          <DialogDescription>
+            Conta corrente, dinheiro e cartões, cada um com seu saldo
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 rounded-md border p-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Nome *</Label>
+              <Input
+                id="account-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-kind">Tipo *</Label>
+              <Select
+                value={formData.kind}
+                onValueChange={(value) => setFormData({ ...formData, kind: value as AccountKind })}
+              >
+                <SelectTrigger id="account-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(accountKindLabels) as AccountKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {accountKindLabels[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-opening">Saldo inicial</Label>
+              <Input
+                id="account-opening"
+                type="number"
+                step="0.01"
+                value={formData.opening_balance}
+                onChange={(e) => setFormData({ ...formData, opening_balance: e.target.value })}
+              />
+            </div>
+          </div>
+          {formData.kind === "card" && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="account-closing-day">Dia do fechamento *</Label>
+                <Input
+                  id="account-closing-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={formData.closing_day}
+                  onChange={(e) => setFormData({ ...formData, closing_day: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-due-day">Dia do vencimento *</Label>
+                <Input
+                  id="account-due-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={formData.due_day}
+                  onChange={(e) => setFormData({ ...formData, due_day: e.target.value })}
+                  required
+                />
+              </div>
+              <p className="text-xs text-muted-foreground self-end">
+                Compras a partir do dia do fechamento entram na fatura seguinte
+              </p>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            {editingAccount && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setEditingAccount(null);
+                  setFormData(emptyForm);
+                }}
+              >
+                Cancelar
+              </Button>
+            )}
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : (editingAccount ? "Atualizar" : "Criar Conta")}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          {accounts.map((account) => (
+            <div
+              key={account.id}
+              className={cn("flex items-center justify-between rounded-md border p-3", account.archived && "opacity-60")}
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{account.name}</span>
+                  <Badge variant="secondary">{accountKindLabels[account.kind]}</Badge>
+                  {account.is_default && <Badge>Padrão</Badge>}
+                  {account.archived && <Badge variant="outline">Arquivada</Badge>}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {account.kind === "card" && `Fecha dia ${account.closing_day}, vence dia ${account.due_day} · `}
+                  Saldo inicial {formatCurrency(account.opening_balance)} ·{" "}
+                  {getTransactionCount(account)} {getTransactionCount(account) === 1 ? "transação" : "transações"}
+                </span>
+              </div>
+              <div className="flex space-x-1">
+                {!account.is_default && (
+                  <Button variant="ghost" size="icon" title="Tornar padrão" onClick={() => handleSetDefault(account)}>
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(account)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleArchive(account)}>
+                  {account.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                </Button>
+                {getTransactionCount(account) === 0 && !account.is_default && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(account)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          {accounts.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nenhuma conta cadastrada. A primeira conta criada será a padrão.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
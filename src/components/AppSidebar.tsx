@@ -21,7 +21,11 @@ import {
   LogOut,
   Camera,
   Sparkles,
-  Briefcase
+  Briefcase,
+  HandCoins,
+  FileSignature,
+  Receipt,
+  Settings
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { useAuth } from "./AuthWrapper";
@@ -29,16 +33,20 @@ import { useAuth } from "./AuthWrapper";
 const navigationItems = [
   { title: "Dashboard", url: "/", icon: Home },
   { title: "Controle de Caixa", url: "/caixa", icon: Wallet },
+  { title: "A Receber", url: "/receber", icon: HandCoins },
   { title: "Clientes", url: "/clientes", icon: Users },
   { title: "Serviços", url: "/servicos", icon: Briefcase },
+  { title: "Orçamentos", url: "/orcamentos", icon: FileSignature },
   { title: "Agenda", url: "/agenda", icon: Calendar },
   { title: "Relatórios", url: "/relatorios", icon: FileText },
+  { title: "Documentos", url: "/documentos", icon: Receipt },
+  { title: "Configurações", url: "/configuracoes", icon: Settings },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
-  const { logout } = useAuth();
+  const { logout, user } = useAuth();
   const currentPath = location.pathname;
   const isCollapsed = state === "collapsed";
 
@@ -81,7 +89,7 @@ export function AppSidebar() {
                   <SidebarMenuButton asChild>
                     <NavLink 
                       to={item.url} 
-                      end 
+                      end={item.url === "/"}
                       className={({ isActive }) => getNavCls({ isActive })}
                     >
                       <item.icon className="h-4 w-4" />
@@ -97,6 +105,11 @@ export function AppSidebar() {
 
       <SidebarFooter className="border-t border-sidebar-border">
         <div className="p-2">
+          {!isCollapsed && user?.email && (
+            <p className="px-2 pb-2 text-xs text-sidebar-foreground/70 truncate">
+              {user.email}
+            </p>
+          )}
           <Button
             variant="ghost"
             size={isCollapsed ? "icon" : "default"}
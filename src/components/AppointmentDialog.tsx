@@ -20,14 +20,29 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
-import { X, Plus } from "lucide-react";
-import { format } from "date-fns";
+import { PaymentPlanEditor } from "@/components/PaymentPlanEditor";
+import { PixChargeDialog } from "@/components/PixChargeDialog";
+import { PaymentPlanItem, getPlanTotalCents, toCents } from "@/lib/paymentPlan";
+import { X, Plus, AlertTriangle, Wallet, QrCode } from "lucide-react";
+import { format, addHours } from "date-fns";
 
 interface Client {
   id: string;
   name: string;
+  archived: boolean;
 }
 
 interface Service {
@@ -37,21 +52,44 @@ interface Service {
   duration_hours: number;
 }
 
-interface AppointmentService {
+export interface AppointmentService {
   service_id: string;
   price: number;
   quantity: number;
   service?: Service;
 }
 
+interface AppointmentConflict {
+  id: string;
+  title: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface LinkedTransaction {
+  id: string;
+  amount: number;
+  transaction_date: string;
+}
+
+// Dados iniciais de um novo agendamento, como os de um orçamento aceito
+export interface AppointmentTemplate {
+  title: string;
+  description?: string;
+  client_id?: string;
+  services: AppointmentService[];
+}
+
 interface AppointmentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   appointment?: any;
-  onSave: () => void;
+  defaultStartDate?: Date;
+  template?: AppointmentTemplate;
+  onSave: (appointmentId?: string) => void;
 }
 
-export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: AppointmentDialogProps) {
+export function AppointmentDialog({ open, onOpenChange, appointment, defaultStartDate, template, onSave }: AppointmentDialogProps) {
   const [clients, setClients] = useState<Client[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(false);
@@ -65,9 +103,19 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
     status: "scheduled",
   });
   const [appointmentServices, setAppointmentServices] = useState<AppointmentService[]>([]);
+  const [conflicts, setConflicts] = useState<AppointmentConflict[]>([]);
+  const [linkedTransaction, setLinkedTransaction] = useState<LinkedTransaction | null>(null);
+  const [isReversePromptOpen, setIsReversePromptOpen] = useState(false);
+  const [paymentPlan, setPaymentPlan] = useState<PaymentPlanItem[]>([]);
+  const [isPlanDirty, setIsPlanDirty] = useState(false);
+  const [pixCharge, setPixCharge] = useState<{ amount: number; description: string } | null>(null);
 
   useEffect(() => {
     if (open) {
+      setConflicts([]);
+      setLinkedTransaction(null);
+      setPaymentPlan([]);
+      setIsPlanDirty(false);
       fetchData();
       if (appointment) {
         setFormData({
@@ -80,16 +128,18 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
           status: appointment.status || "scheduled",
         });
         fetchAppointmentServices(appointment.id);
+        fetchLinkedTransaction(appointment.id);
+        fetchPaymentPlan(appointment.id);
       } else {
-        resetForm();
+        resetForm(defaultStartDate, template);
       }
     }
-  }, [open, appointment]);
+  }, [open, appointment, defaultStartDate, template]);
 
   const fetchData = async () => {
     try {
       const [clientsRes, servicesRes] = await Promise.all([
-        supabase.from("clients").select("id, name").order("name"),
+        supabase.from("clients").select("id, name, archived").order("name"),
         supabase.from("services").select("*").order("name")
       ]);
 
@@ -133,17 +183,89 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
     }
   };
 
-  const resetForm = () => {
+  const fetchLinkedTransaction = async (appointmentId: string) => {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, amount, transaction_date")
+      .eq("appointment_id", appointmentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Erro ao carregar receita vinculada:", error);
+      return;
+    }
+
+    setLinkedTransaction(data);
+  };
+
+  const fetchPaymentPlan = async (appointmentId: string) => {
+    const { data, error } = await supabase
+      .from("receivables")
+      .select(`
+        *,
+        transactions (amount)
+      `)
+      .eq("appointment_id", appointmentId)
+      .order("installment_number");
+
+    if (error) {
+      console.error("Erro ao carregar plano de pagamento:", error);
+      return;
+    }
+
+    setPaymentPlan((data || []).map(item => ({
+      id: item.id,
+      kind: item.kind as PaymentPlanItem["kind"],
+      installment_number: item.installment_number,
+      description: item.description,
+      amount: item.amount,
+      due_date: item.due_date,
+      paid_amount: item.transactions.reduce((total, payment) => total + payment.amount, 0),
+    })));
+  };
+
+  const updatePaymentPlan = (plan: PaymentPlanItem[]) => {
+    setPaymentPlan(plan);
+    setIsPlanDirty(true);
+  };
+
+  const handlePayReceivable = async (item: PaymentPlanItem) => {
+    if (!item.id || !appointment) return;
+
+    try {
+      const { error } = await supabase.rpc("pay_receivable", {
+        p_receivable_id: item.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: `${item.description} recebida e lançada no caixa`,
+      });
+      fetchPaymentPlan(appointment.id);
+      onSave();
+    } catch (error) {
+      console.error("Erro ao receber parcela:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao receber parcela",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetForm = (defaultStartDate?: Date, template?: AppointmentTemplate) => {
     setFormData({
-      title: "",
-      description: "",
-      client_id: "",
-      start_date: "",
-      end_date: "",
+      title: template?.title || "",
+      description: template?.description || "",
+      client_id: template?.client_id || "",
+      start_date: defaultStartDate ? format(defaultStartDate, "yyyy-MM-dd'T'HH:mm") : "",
+      end_date: defaultStartDate ? format(addHours(defaultStartDate, 1), "yyyy-MM-dd'T'HH:mm") : "",
       location: "",
       status: "scheduled",
     });
-    setAppointmentServices([]);
+    setAppointmentServices(template?.services || []);
   };
 
   const addService = () => {
@@ -174,87 +296,108 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
     setAppointmentServices(updated);
   };
 
+  // Qualquer mudança de horário ou status invalida a confirmação de conflito
+  const updateSchedule = (field: "start_date" | "end_date" | "status", value: string) => {
+    setFormData({ ...formData, [field]: value });
+    setConflicts([]);
+  };
+
+  const findConflicts = async () => {
+    const { data, error } = await supabase.rpc("find_appointment_conflicts", {
+      p_start_date: new Date(formData.start_date).toISOString(),
+      p_end_date: new Date(formData.end_date).toISOString(),
+      p_exclude_id: appointment?.id,
+    });
+
+    if (error) throw error;
+    return data || [];
+  };
+
   const getTotalValue = () => {
     return appointmentServices.reduce((total, item) => total + (item.price * item.quantity), 0);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (new Date(formData.end_date) <= new Date(formData.start_date)) {
+      toast({
+        title: "Erro",
+        description: "A data de fim deve ser posterior à data de início",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (paymentPlan.length > 0 && getPlanTotalCents(paymentPlan) !== toCents(getTotalValue())) {
+      toast({
+        title: "Erro",
+        description: "A soma das parcelas deve ser igual ao total dos serviços",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Tirar um agendamento de "concluído" pergunta se a receita deve ser estornada
+    if (linkedTransaction && formData.status !== "completed") {
+      setIsReversePromptOpen(true);
+      return;
+    }
+
+    await saveAppointment(false);
+  };
+
+  const saveAppointment = async (reverseIncome: boolean) => {
+    setIsReversePromptOpen(false);
     setLoading(true);
 
     try {
+      // Conflitos já exibidos e confirmados pelo usuário liberam o salvamento
+      const overrideConflicts = conflicts.length > 0;
+
+      if (formData.status === "scheduled" && !overrideConflicts) {
+        const found = await findConflicts();
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
       const appointmentData = {
         ...formData,
+        id: appointment?.id ?? null,
         client_id: formData.client_id || null,
+        start_date: new Date(formData.start_date).toISOString(),
+        end_date: new Date(formData.end_date).toISOString(),
+        allow_overlap: overrideConflicts,
       };
 
-      let appointmentId: string;
-
-      if (appointment) {
-        // Atualizar agendamento existente
-        const { error } = await supabase
-          .from("appointments")
-          .update(appointmentData)
-          .eq("id", appointment.id);
-
-        if (error) throw error;
-        appointmentId = appointment.id;
-
-        // Remover serviços existentes
-        await supabase
-          .from("appointment_services")
-          .delete()
-          .eq("appointment_id", appointmentId);
-      } else {
-        // Criar novo agendamento
-        const { data, error } = await supabase
-          .from("appointments")
-          .insert([appointmentData])
-          .select()
-          .single();
-
-        if (error) throw error;
-        appointmentId = data.id;
-      }
-
-      // Inserir serviços do agendamento
-      if (appointmentServices.length > 0) {
-        const servicesData = appointmentServices.map(service => ({
-          appointment_id: appointmentId,
+      const servicesData = appointmentServices
+        .filter(service => service.service_id)
+        .map(service => ({
           service_id: service.service_id,
           price: service.price,
           quantity: service.quantity,
         }));
 
-        const { error: servicesError } = await supabase
-          .from("appointment_services")
-          .insert(servicesData);
-
-        if (servicesError) throw servicesError;
-      }
+      const planData = paymentPlan.map(item => ({
+        kind: item.kind,
+        installment_number: item.installment_number,
+        description: item.description,
+        amount: item.amount,
+        due_date: item.due_date,
+      }));
+
+      // Agendamento, serviços, parcelas e receita são gravados em uma única transação
+      const { data, error } = await supabase.rpc("save_appointment", {
+        p_appointment: appointmentData,
+        p_services: servicesData,
+        p_register_income: formData.status === "completed",
+        p_reverse_income: reverseIncome,
+        p_payment_plan: isPlanDirty ? planData : undefined,
+      });
 
-      // Se o agendamento foi concluído, criar transação de receita
-      if (formData.status === "completed" && appointmentServices.length > 0) {
-        const totalValue = getTotalValue();
-        const client = clients.find(c => c.id === formData.client_id);
-        
-        const transactionData = {
-          type: "income",
-          amount: totalValue,
-          description: `Receita do agendamento: ${formData.title}${client ? ` - ${client.name}` : ""}`,
-          client_id: formData.client_id || null,
-          transaction_date: format(new Date(formData.start_date), "yyyy-MM-dd"),
-        };
-
-        const { error: transactionError } = await supabase
-          .from("transactions")
-          .insert([transactionData]);
-
-        if (transactionError) {
-          console.error("Erro ao criar transação:", transactionError);
-          // Não falhar o agendamento por causa da transação
-        }
-      }
+      if (error) throw error;
 
       toast({
         title: "Sucesso",
@@ -262,9 +405,21 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
       });
 
       onOpenChange(false);
-      onSave();
+      onSave(data?.id);
     } catch (error) {
       console.error("Erro ao salvar agendamento:", error);
+
+      // Outra aba pode ter ocupado o horário entre a verificação e o salvamento
+      if ((error as { code?: string }).code === "23P01") {
+        setConflicts(await findConflicts().catch(() => []));
+        toast({
+          title: "Conflito de horário",
+          description: "Outro agendamento foi salvo neste horário",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Erro",
         description: "Falha ao salvar agendamento",
@@ -275,6 +430,8 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
     }
   };
 
+  const isPlanLocked = paymentPlan.some(item => (item.paid_amount ?? 0) > 0);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("pt-BR", {
       style: "currency",
@@ -320,11 +477,13 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
                     <SelectValue placeholder="Selecione um cliente" />
                   </SelectTrigger>
                   <SelectContent>
-                    {clients.map((client) => (
-                      <SelectItem key={client.id} value={client.id}>
-                        {client.name}
-                      </SelectItem>
-                    ))}
+                    {clients
+                      .filter(client => !client.archived || client.id === formData.client_id)
+                      .map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -337,7 +496,7 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
                   id="start_date"
                   type="datetime-local"
                   value={formData.start_date}
-                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  onChange={(e) => updateSchedule("start_date", e.target.value)}
                   required
                 />
               </div>
@@ -347,7 +506,7 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
                   id="end_date"
                   type="datetime-local"
                   value={formData.end_date}
-                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  onChange={(e) => updateSchedule("end_date", e.target.value)}
                   required
                 />
               </div>
@@ -366,7 +525,7 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
                 <Label htmlFor="status">Status</Label>
                 <Select
                   value={formData.status}
-                  onValueChange={(value) => setFormData({ ...formData, status: value })}
+                  onValueChange={(value) => updateSchedule("status", value)}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -463,26 +622,108 @@ export function AppointmentDialog({ open, onOpenChange, appointment, onSave }: A
               ))}
 
               {appointmentServices.length > 0 && (
-                <div className="flex justify-end">
+                <div className="flex items-center justify-end space-x-2">
+                  {getTotalValue() > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPixCharge({ amount: getTotalValue(), description: formData.title || "agendamento" })}
+                    >
+                      <QrCode className="h-4 w-4 mr-2" />
+                      Cobrar via Pix
+                    </Button>
+                  )}
                   <Badge variant="secondary" className="text-base p-2">
                     Total Geral: {formatCurrency(getTotalValue())}
                   </Badge>
                 </div>
               )}
             </div>
+
+            <PaymentPlanEditor
+              plan={paymentPlan}
+              onChange={updatePaymentPlan}
+              total={getTotalValue()}
+              defaultDepositDate={formData.start_date.slice(0, 10)}
+              locked={isPlanLocked}
+              canPay={!!appointment && !isPlanDirty}
+              onPay={handlePayReceivable}
+              onCharge={(item) => setPixCharge({
+                amount: item.amount - (item.paid_amount ?? 0),
+                description: `${item.description} - ${formData.title}`,
+              })}
+            />
           </div>
 
+          {linkedTransaction && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground mb-4">
+              <Wallet className="h-4 w-4 text-success" />
+              <span>
+                Receita de {formatCurrency(linkedTransaction.amount)} lançada no caixa em{" "}
+                {format(new Date(`${linkedTransaction.transaction_date}T00:00:00`), "dd/MM/yyyy")}
+              </span>
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Conflito de horário</AlertTitle>
+              <AlertDescription>
+                <p className="mb-2">Este horário se sobrepõe a outros agendamentos:</p>
+                <ul className="space-y-1">
+                  {conflicts.map((conflict) => (
+                    <li key={conflict.id}>
+                      <span className="font-medium">{conflict.title}</span>{" "}
+                      {format(new Date(conflict.start_date), "dd/MM/yyyy HH:mm")} - {format(new Date(conflict.end_date), "HH:mm")}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <DialogFooter>
             <Button 
               type="submit" 
               disabled={loading}
               className="bg-gradient-primary hover:opacity-90 transition-opacity"
             >
-              {loading ? "Salvando..." : (appointment ? "Atualizar" : "Criar Agendamento")}
+              {loading
+                ? "Salvando..."
+                : conflicts.length > 0
+                  ? "Salvar mesmo assim"
+                  : (appointment ? "Atualizar" : "Criar Agendamento")}
             </Button>
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <PixChargeDialog
+        open={!!pixCharge}
+        onOpenChange={(open) => !open && setPixCharge(null)}
+        amount={pixCharge?.amount ?? 0}
+        reference={appointment?.id}
+        description={pixCharge?.description ?? ""}
+        clientName={clients.find(client => client.id === formData.client_id)?.name}
+      />
+
+      <AlertDialog open={isReversePromptOpen} onOpenChange={setIsReversePromptOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Estornar receita?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Este agendamento já tem uma receita de {linkedTransaction && formatCurrency(linkedTransaction.amount)} no
+              caixa. Deseja removê-la ao tirar o agendamento de "Concluído"?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => saveAppointment(false)}>Manter receita</AlertDialogCancel>
+            <AlertDialogAction onClick={() => saveAppointment(true)}>Estornar receita</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 }
\ No newline at end of file
@@ -1,15 +1,24 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import type { Session, User } from "@supabase/supabase-js";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
+import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { Camera, Sparkles } from "lucide-react";
 
 interface AuthContextType {
+  user: User | null;
+  session: Session | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => boolean;
-  logout: () => void;
+  isLoading: boolean;
+  isPasswordRecovery: boolean;
+  login: (email: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  resetPassword: (email: string) => Promise<boolean>;
+  updatePassword: (password: string) => Promise<boolean>;
+  refreshSession: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -27,30 +36,35 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider = ({ children }: AuthProviderProps) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
 
-  // Verificar se já está logado no localStorage
+  // Registrar o listener antes de ler a sessão persistida para não perder eventos
   useEffect(() => {
-    const authState = localStorage.getItem("framebox-auth");
-    if (authState === "authenticated") {
-      setIsAuthenticated(true);
-    }
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, newSession) => {
+      setSession(newSession);
+      if (event === "PASSWORD_RECOVERY") {
+        setIsPasswordRecovery(true);
+      }
+      if (event === "SIGNED_OUT") {
+        setIsPasswordRecovery(false);
+      }
+    });
+
+    supabase.auth.getSession().then(({ data: { session: currentSession } }) => {
+      setSession(currentSession);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
   }, []);
 
-  const login = (email: string, password: string) => {
-    // Credenciais fixas conforme solicitado
-    const validEmail = "patriciacostastorymaker@gmail.com";
-    const validPassword = "Pati5688@";
+  const login = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
 
-    if (email === validEmail && password === validPassword) {
-      setIsAuthenticated(true);
-      localStorage.setItem("framebox-auth", "authenticated");
-      toast({
-        title: "Login realizado com sucesso!",
-        description: "Bem-vinda ao FrameBOX",
-      });
-      return true;
-    } else {
+    if (error) {
+      console.error("Erro no login:", error);
       toast({
         title: "Erro no login",
         description: "Email ou senha incorretos",
@@ -58,86 +72,262 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       });
       return false;
     }
+
+    toast({
+      title: "Login realizado com sucesso!",
+      description: "Bem-vinda ao FrameBOX",
+    });
+    return true;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem("framebox-auth");
+  const logout = async () => {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      console.error("Erro no logout:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao encerrar a sessão",
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "Logout realizado",
       description: "Até logo!",
     });
   };
 
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: window.location.origin,
+    });
+
+    if (error) {
+      console.error("Erro ao solicitar redefinição de senha:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao enviar o email de redefinição",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Email enviado",
+      description: "Verifique sua caixa de entrada para redefinir a senha",
+    });
+    return true;
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      console.error("Erro ao atualizar senha:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar a senha",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setIsPasswordRecovery(false);
+    toast({
+      title: "Sucesso",
+      description: "Senha atualizada com sucesso",
+    });
+    return true;
+  };
+
+  const refreshSession = async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+
+    if (error) {
+      console.error("Erro ao renovar sessão:", error);
+      return;
+    }
+
+    setSession(data.session);
+  };
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        user: session?.user ?? null,
+        session,
+        isAuthenticated: !!session,
+        isLoading,
+        isPasswordRecovery,
+        login,
+        logout,
+        resetPassword,
+        updatePassword,
+        refreshSession,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
 };
 
+interface AuthCardProps {
+  description: string;
+  children: ReactNode;
+}
+
+const AuthCard = ({ description, children }: AuthCardProps) => (
+  <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+    <Card className="w-full max-w-md shadow-xl">
+      <CardHeader className="text-center space-y-4">
+        <div className="flex items-center justify-center space-x-2">
+          <div className="relative">
+            <Camera className="h-8 w-8 text-primary" />
+            <Sparkles className="h-4 w-4 text-secondary absolute -top-1 -right-1" />
+          </div>
+          <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            FrameBOX
+          </h1>
+        </div>
+        <CardTitle className="text-xl">Sistema de Gestão</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  </div>
+);
+
 const LoginForm = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const { login } = useAuth();
+  const [mode, setMode] = useState<"login" | "forgot">("login");
+  const [loading, setLoading] = useState(false);
+  const { login, resetPassword } = useAuth();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    login(email, password);
+    setLoading(true);
+
+    if (mode === "login") {
+      await login(email, password);
+    } else if (await resetPassword(email)) {
+      setMode("login");
+    }
+
+    setLoading(false);
   };
 
   return (
-    <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
-      <Card className="w-full max-w-md shadow-xl">
-        <CardHeader className="text-center space-y-4">
-          <div className="flex items-center justify-center space-x-2">
-            <div className="relative">
-              <Camera className="h-8 w-8 text-primary" />
-              <Sparkles className="h-4 w-4 text-secondary absolute -top-1 -right-1" />
-            </div>
-            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-              FrameBOX
-            </h1>
+    <AuthCard
+      description={mode === "login"
+        ? "Entre com suas credenciais para acessar o sistema"
+        : "Informe seu email para receber o link de redefinição"
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="seu@email.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        {mode === "login" && (
+          <div className="space-y-2">
+            <Label htmlFor="password">Senha</Label>
+            <Input
+              id="password"
+              type="password"
+              placeholder="Digite sua senha"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
           </div>
-          <CardTitle className="text-xl">Sistema de Gestão</CardTitle>
-          <CardDescription>
-            Entre com suas credenciais para acessar o sistema
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="seu@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Senha</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Digite sua senha"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
-            <Button 
-              type="submit" 
-              className="w-full bg-gradient-primary hover:opacity-90 transition-opacity"
-            >
-              Entrar
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
-    </div>
+        )}
+        <Button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-gradient-primary hover:opacity-90 transition-opacity"
+        >
+          {loading ? "Aguarde..." : (mode === "login" ? "Entrar" : "Enviar link")}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="w-full"
+          onClick={() => setMode(mode === "login" ? "forgot" : "login")}
+        >
+          {mode === "login" ? "Esqueci minha senha" : "Voltar para o login"}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+};
+
+const UpdatePasswordForm = () => {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { updatePassword } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Erro",
+        description: "As senhas não conferem",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    await updatePassword(password);
+    setLoading(false);
+  };
+
+  return (
+    <AuthCard description="Defina uma nova senha para sua conta">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-password">Nova senha</Label>
+          <Input
+            id="new-password"
+            type="password"
+            minLength={6}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm-password">Confirmar senha</Label>
+          <Input
+            id="confirm-password"
+            type="password"
+            minLength={6}
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-gradient-primary hover:opacity-90 transition-opacity"
+        >
+          {loading ? "Salvando..." : "Salvar nova senha"}
+        </Button>
+      </form>
+    </AuthCard>
   );
 };
 
@@ -146,11 +336,23 @@ interface AuthWrapperProps {
 }
 
 export const AuthWrapper = ({ children }: AuthWrapperProps) => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isLoading, isPasswordRecovery } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Camera className="h-8 w-8 text-white animate-pulse" />
+      </div>
+    );
+  }
+
+  if (isPasswordRecovery) {
+    return <UpdatePasswordForm />;
+  }
 
   if (!isAuthenticated) {
     return <LoginForm />;
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
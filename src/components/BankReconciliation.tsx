@@ -0,0 +1,561 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { decodeStatementFile, findMatchingTransaction, parseStatement, suggestCategory } from "@/lib/statementImport";
+import { amountsMatch, getRunningBalances, getSignedAmount } from "@/lib/reconciliation";
+import { TransactionType, isInflow } from "@/lib/accounts";
+import { cn } from "@/lib/utils";
+import { CheckCheck, Link2, Plus, Trash2, Undo2, Wand2 } from "lucide-react";
+import { format, parseISO, startOfMonth, endOfMonth } from "date-fns";
+
+interface BookTransaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  category_id?: string;
+  import_id?: string;
+  account_id?: string;
+  reconciled?: boolean;
+}
+
+interface StatementLineRow {
+  id: string;
+  import_id: string;
+  line_date: string;
+  description: string;
+  amount: number;
+  transaction_id: string | null;
+  account_id: string | null;
+}
+
+interface Account {
+  id: string;
+  name: string;
+  opening_balance: number;
+  is_default: boolean;
+  archived: boolean;
+}
+
+interface BankReconciliationProps {
+  transactions: BookTransaction[];
+  accounts: Account[];
+  onChange: () => void;
+}
+
+export function BankReconciliation({ transactions, accounts, onChange }: BankReconciliationProps) {
+  const [allLines, setAllLines] = useState<StatementLineRow[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState("");
+  const [period, setPeriod] = useState({
+    start: format(startOfMonth(new Date()), "yyyy-MM-dd"),
+    end: format(endOfMonth(new Date()), "yyyy-MM-dd"),
+  });
+  const [bankOpening, setBankOpening] = useState("");
+  const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    fetchLines(period.start, period.end);
+  }, [period.start, period.end]);
+
+  const fetchLines = async (start: string, end: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("statement_lines")
+        .select("*")
+        .gte("line_date", start)
+        .lte("line_date", end)
+        .order("line_date");
+
+      if (error) throw error;
+
+      setAllLines(data || []);
+    } catch (error) {
+      console.error("Erro ao carregar extrato:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar linhas do extrato",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const refresh = () => {
+    setSelectedLineId(null);
+    fetchLines(period.start, period.end);
+    onChange();
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const inPeriod = (date: string) => date >= period.start && date <= period.end;
+
+  // Cada extrato é conciliado contra uma conta; sem contas cadastradas, vale o caixa todo
+  const account = accounts.find(a => a.id === selectedAccountId) ?? accounts.find(a => a.is_default);
+  const accountTransactions = account ? transactions.filter(t => t.account_id === account.id) : transactions;
+  const lines = account ? allLines.filter(line => line.account_id === account.id) : allLines;
+
+  const bookEntries = accountTransactions.filter(t => inPeriod(t.transaction_date));
+  const unmatchedLines = lines.filter(line => !line.transaction_id);
+  const unmatchedBook = bookEntries.filter(t => !t.reconciled);
+  const reconciledLines = lines.filter(line => line.transaction_id);
+  const selectedLine = lines.find(line => line.id === selectedLineId);
+
+  // Sem saldo inicial do extrato informado, parte-se do saldo contábil anterior ao período
+  const openingBook = accountTransactions
+    .filter(t => t.transaction_date < period.start)
+    .reduce((sum, t) => sum + getSignedAmount(t), Number(account?.opening_balance ?? 0));
+  const openingBank = bankOpening === "" ? openingBook : parseFloat(bankOpening) || 0;
+
+  const runningBalances = getRunningBalances(bookEntries, lines, openingBook, openingBank);
+  const closing = runningBalances[runningBalances.length - 1] ?? {
+    book: openingBook,
+    bank: openingBank,
+    difference: openingBook - openingBank,
+  };
+
+  const toStatementLine = (line: StatementLineRow) => ({
+    import_id: line.import_id,
+    date: line.line_date,
+    description: line.description,
+    amount: Number(line.amount),
+  });
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      const parsed = parseStatement(file.name, decodeStatementFile(await file.arrayBuffer()));
+
+      if (parsed.length === 0) {
+        toast({
+          title: "Erro",
+          description: "Nenhum lançamento encontrado no arquivo",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("statement_lines")
+        .upsert(parsed.map(line => ({
+          import_id: line.import_id,
+          line_date: line.date,
+          description: line.description,
+          amount: line.amount,
+          account_id: account?.id ?? null,
+        })), { onConflict: "owner_id,account_id,import_id", ignoreDuplicates: true })
+        .select("id");
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: `${data?.length ?? 0} ${data?.length === 1 ? "linha nova carregada" : "linhas novas carregadas"} do extrato`,
+      });
+      fetchLines(period.start, period.end);
+    } catch (error) {
+      console.error("Erro ao carregar extrato:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar o arquivo do extrato",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reconcile = async (line: StatementLineRow, transactionId?: string) => {
+    setWorking(true);
+
+    try {
+      const { error } = await supabase.rpc("reconcile_statement_line", {
+        p_statement_line_id: line.id,
+        p_transaction_id: transactionId,
+        p_category_id: transactionId ? undefined : suggestCategory(toStatementLine(line), transactions),
+      });
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      console.error("Erro ao conciliar:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao conciliar lançamento",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  /** Concilia as linhas com correspondência clara: mesma importação ou mesmo valor e data próxima. */
+  const handleAutoReconcile = async () => {
+    setWorking(true);
+    const available = [...unmatchedBook];
+    let reconciled = 0;
+
+    try {
+      for (const line of unmatchedLines) {
+        const candidate = available.find(t => t.import_id === line.import_id && amountsMatch(t, line))
+          ?? findMatchingTransaction(toStatementLine(line), available);
+        if (!candidate) continue;
+
+        const { error } = await supabase.rpc("reconcile_statement_line", {
+          p_statement_line_id: line.id,
+          p_transaction_id: candidate.id,
+        });
+
+        if (error) throw error;
+
+        available.splice(available.indexOf(candidate), 1);
+        reconciled++;
+      }
+
+      toast({
+        title: "Sucesso",
+        description: reconciled > 0
+          ? `${reconciled} ${reconciled === 1 ? "linha conciliada" : "linhas conciliadas"} automaticamente`
+          : "Nenhuma correspondência automática encontrada",
+      });
+    } catch (error) {
+      console.error("Erro ao conciliar automaticamente:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao conciliar automaticamente",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+      refresh();
+    }
+  };
+
+  const handleUnreconcile = async (line: StatementLineRow) => {
+    try {
+      const { error } = await supabase.rpc("unreconcile_statement_line", {
+        p_statement_line_id: line.id,
+      });
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      console.error("Erro ao desfazer conciliação:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao desfazer conciliação",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteLine = async (line: StatementLineRow) => {
+    if (!confirm("Remover esta linha do extrato?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("statement_lines")
+        .delete()
+        .eq("id", line.id);
+
+      if (error) throw error;
+
+      fetchLines(period.start, period.end);
+    } catch (error) {
+      console.error("Erro ao remover linha do extrato:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao remover linha do extrato",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Com uma linha selecionada, os lançamentos de mesmo valor sobem para o topo
+  const sortedBook = [...unmatchedBook].sort((a, b) => {
+    if (selectedLine) {
+      const matchA = amountsMatch(a, selectedLine) ? 0 : 1;
+      const matchB = amountsMatch(b, selectedLine) ? 0 : 1;
+      if (matchA !== matchB) return matchA - matchB;
+    }
+    return a.transaction_date.localeCompare(b.transaction_date);
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>Conciliação Bancária</CardTitle>
+          <CardDescription>
+            Carregue o extrato do banco e vincule cada linha ao lançamento correspondente do caixa
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="reconciliation_account">Conta</Label>
+              <Select value={account?.id ?? ""} onValueChange={setSelectedAccountId} disabled={accounts.length === 0}>
+                <SelectTrigger id="reconciliation_account">
+                  <SelectValue placeholder="Todas" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.filter(a => !a.archived || a.id === account?.id).map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reconciliation_start">De</Label>
+              <Input
+                id="reconciliation_start"
+                type="date"
+                value={period.start}
+                onChange={(e) => e.target.value && setPeriod({ ...period, start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reconciliation_end">Até</Label>
+              <Input
+                id="reconciliation_end"
+                type="date"
+                value={period.end}
+                onChange={(e) => e.target.value && setPeriod({ ...period, end: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank_opening">Saldo inicial do extrato</Label>
+              <Input
+                id="bank_opening"
+                type="number"
+                step="0.01"
+                placeholder={openingBook.toFixed(2)}
+                value={bankOpening}
+                onChange={(e) => setBankOpening(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reconciliation_file">Extrato (OFX ou CSV)</Label>
+              <Input
+                id="reconciliation_file"
+                type="file"
+                accept=".ofx,.csv,.txt"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Saldo contábil</p>
+              <p className="text-xl font-bold">{formatCurrency(closing.book)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Saldo do banco</p>
+              <p className="text-xl font-bold">{formatCurrency(closing.bank)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Diferença</p>
+              <p className={cn("text-xl font-bold", closing.difference === 0 ? "text-success" : "text-destructive")}>
+                {formatCurrency(closing.difference)}
+              </p>
+            </div>
+          </div>
+
+          {runningBalances.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-md border">
+              {runningBalances.map((balance) => (
+                <div key={balance.date} className="grid grid-cols-4 gap-2 px-3 py-1.5 text-sm border-b last:border-b-0">
+                  <span>{format(parseISO(balance.date), "dd/MM/yyyy")}</span>
+                  <span className="text-right">{formatCurrency(balance.book)}</span>
+                  <span className="text-right">{formatCurrency(balance.bank)}</span>
+                  <span className={cn("text-right font-medium", balance.difference === 0 ? "text-muted-foreground" : "text-destructive")}>
+                    {formatCurrency(balance.difference)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Badge variant="secondary">{unmatchedLines.length} no extrato sem correspondência</Badge>
+          <Badge variant="secondary">{unmatchedBook.length} no caixa não conciliados</Badge>
+        </div>
+        <Button
+          variant="outline"
+          disabled={working || unmatchedLines.length === 0}
+          onClick={handleAutoReconcile}
+        >
+          <Wand2 className="h-4 w-4 mr-2" />
+          Conciliar automaticamente
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="text-base">Extrato</CardTitle>
+            <CardDescription>Selecione uma linha para vincular a um lançamento</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {unmatchedLines.map((line) => (
+              <div
+                key={line.id}
+                className={cn(
+                  "flex items-center justify-between rounded-md border p-3 cursor-pointer hover:bg-muted/50",
+                  line.id === selectedLineId && "ring-2 ring-primary"
+                )}
+                onClick={() => setSelectedLineId(line.id === selectedLineId ? null : line.id)}
+              >
+                <div>
+                  <p className="font-medium text-sm">{line.description}</p>
+                  <p className="text-xs text-muted-foreground">{format(parseISO(line.line_date), "dd/MM/yyyy")}</p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <span className={cn("font-semibold text-sm", line.amount > 0 ? "text-success" : "text-destructive")}>
+                    {formatCurrency(line.amount)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Lançar no caixa"
+                    disabled={working}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      reconcile(line);
+                    }}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remover linha"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteLine(line);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {unmatchedLines.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhuma linha pendente no período
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="text-base">Caixa</CardTitle>
+            <CardDescription>Lançamentos do período ainda não conciliados</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {sortedBook.map((transaction) => {
+              const canMatch = selectedLine ? amountsMatch(transaction, selectedLine) : false;
+
+              return (
+                <div
+                  key={transaction.id}
+                  className={cn("flex items-center justify-between rounded-md border p-3", canMatch && "border-primary")}
+                >
+                  <div>
+                    <p className="font-medium text-sm">{transaction.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(transaction.transaction_date), "dd/MM/yyyy")}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <span className={cn("font-semibold text-sm", isInflow(transaction.type) ? "text-success" : "text-destructive")}>
+                      {formatCurrency(getSignedAmount(transaction))}
+                    </span>
+                    {selectedLine && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={canMatch ? "Conciliar com a linha selecionada" : "Valor diferente da linha selecionada"}
+                        disabled={!canMatch || working}
+                        onClick={() => reconcile(selectedLine, transaction.id)}
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {sortedBook.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Todos os lançamentos do período estão conciliados
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {reconciledLines.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="text-base">Conciliados</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {reconciledLines.map((line) => {
+              const transaction = transactions.find(t => t.id === line.transaction_id);
+
+              return (
+                <div key={line.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <CheckCheck className="h-4 w-4 text-success" />
+                    <span>{format(parseISO(line.line_date), "dd/MM")} · {line.description}</span>
+                    {transaction && (
+                      <span className="text-muted-foreground">↔ {transaction.description}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <span className="font-semibold">{formatCurrency(line.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Desfazer conciliação"
+                      onClick={() => handleUnreconcile(line)}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { getBudgetAmount, toBudgetMonth } from "@/lib/budgets";
+import { format } from "date-fns";
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface Budget {
+  id: string;
+  category_id: string;
+  month: string;
+  amount: number;
+}
+
+interface BudgetManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;
+}
+
+export function BudgetManager({ open, onOpenChange, onChange }: BudgetManagerProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMonth(format(new Date(), "yyyy-MM"));
+      fetchData();
+    }
+  }, [open]);
+
+  // Ao trocar de mês, os campos mostram o orçamento vigente naquele mês
+  useEffect(() => {
+    const budgetMonth = toBudgetMonth(month);
+    setAmounts(Object.fromEntries(
+      categories.map(category => [category.id, getBudgetAmount(budgets, category.id, budgetMonth)?.toString() ?? ""])
+    ));
+  }, [month, categories, budgets]);
+
+  const fetchData = async () => {
+    try {
+      const [categoriesResult, budgetsResult] = await Promise.all([
+        supabase
+          .from("categories")
+          .select("id, name, color")
+          .eq("type", "expense")
+          .eq("archived", false)
+          .order("name"),
+        supabase
+          .from("category_budgets")
+          .select("*")
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (budgetsResult.error) throw budgetsResult.error;
+
+      setCategories(categoriesResult.data as Category[] || []);
+      setBudgets(budgetsResult.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar orçamentos:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar orçamentos",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const budgetMonth = toBudgetMonth(month);
+
+      // Só grava o que mudou em relação ao vigente; campo vazio zera o orçamento a partir deste mês
+      const changes = categories
+        .map(category => ({
+          category_id: category.id,
+          month: budgetMonth,
+          amount: parseFloat(amounts[category.id]) || 0,
+        }))
+        .filter(budget => budget.amount !== (getBudgetAmount(budgets, budget.category_id, budgetMonth) ?? 0));
+
+      if (changes.length > 0) {
+        const { error } = await supabase
+          .from("category_budgets")
+          .upsert(changes, { onConflict: "owner_id,category_id,month" });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Orçamentos salvos com sucesso",
+      });
+      onOpenChange(false);
+      onChange();
+    } catch (error) {
+      console.error("Erro ao salvar orçamentos:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar orçamentos",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Orçamentos</DialogTitle>
+          <DialogDescription>
+            Limite mensal por categoria de despesa. Vale a partir do mês escolhido até ser alterado.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-month">A partir de</Label>
+              <Input
+                id="budget-month"
+                type="month"
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                required
+              />
+            </div>
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center justify-between space-x-4">
+                <Label htmlFor={`budget-${category.id}`} className="flex items-center space-x-2">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: category.color }} />
+                  <span>{category.name}</span>
+                </Label>
+                <Input
+                  id={`budget-${category.id}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Sem limite"
+                  className="w-40"
+                  value={amounts[category.id] ?? ""}
+                  onChange={(e) => setAmounts({ ...amounts, [category.id]: e.target.value })}
+                />
+              </div>
+            ))}
+            {categories.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">
+                Nenhuma categoria de despesa cadastrada
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { BudgetLevel, BudgetProgress } from "@/lib/budgets";
+import { cn } from "@/lib/utils";
+import { PiggyBank, Settings2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface BudgetOverviewProps {
+  items: BudgetProgress<Category>[];
+  month: Date;
+  onManage?: () => void;
+}
+
+const levelIndicator: Record<BudgetLevel, string> = {
+  ok: "[&>div]:bg-success",
+  warning: "[&>div]:bg-warning",
+  exceeded: "[&>div]:bg-destructive",
+};
+
+export function BudgetOverview({ items, month, onManage }: BudgetOverviewProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <PiggyBank className="h-5 w-5 mr-2" />
+            Orçamento de {format(month, "MMMM", { locale: ptBR })}
+          </CardTitle>
+          <CardDescription>Gasto por categoria em relação ao limite do mês</CardDescription>
+        </div>
+        {onManage && (
+          <Button variant="outline" size="sm" onClick={onManage}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Orçamentos
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma categoria com orçamento definido
+          </p>
+        )}
+        {items.map(({ category, budget, spent, percent, level }) => (
+          <div key={category.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: category.color }} />
+                <span className="font-medium">{category.name}</span>
+                {level === "warning" && (
+                  <Badge variant="outline" className="text-warning border-warning">
+                    {Math.floor(percent)}% usado
+                  </Badge>
+                )}
+                {level === "exceeded" && (
+                  <Badge variant="destructive">Estourado</Badge>
+                )}
+              </div>
+              <span className={cn("text-muted-foreground", level === "exceeded" && "text-destructive")}>
+                {formatCurrency(spent)} de {formatCurrency(budget)}
+              </span>
+            </div>
+            <Progress value={Math.min(percent, 100)} className={cn("h-2", levelIndicator[level])} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
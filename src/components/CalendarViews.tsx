@@ -0,0 +1,333 @@
+import { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useDocumentDownload } from "@/hooks/use-document-download";
+import { cn } from "@/lib/utils";
+import { Clock, MapPin, User, DollarSign, Edit, Trash2, Wallet, FileText } from "lucide-react";
+import {
+  format,
+  parseISO,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  endOfDay,
+  setHours,
+  differenceInMinutes,
+  max as maxDate,
+  min as minDate,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getServicesTotal } from "@/lib/appointmentServices";
+
+export interface CalendarAppointment {
+  id: string;
+  title: string;
+  description?: string;
+  client_id?: string;
+  start_date: string;
+  end_date: string;
+  location?: string;
+  status: string;
+  clients?: { name: string };
+  appointment_services?: Array<{
+    price: number | null;
+    quantity: number | null;
+    services: { name: string };
+  }>;
+  transactions?: { id: string; amount: number } | null;
+}
+
+const HOUR_HEIGHT = 48;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const statusStyles: Record<string, { event: string; label: string }> = {
+  scheduled: { event: "bg-blue-100 text-blue-800 border-blue-300", label: "Agendado" },
+  completed: { event: "bg-green-100 text-green-800 border-green-300", label: "Concluído" },
+  cancelled: { event: "bg-red-100 text-red-800 border-red-300 line-through", label: "Cancelado" },
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+};
+
+const getTotalValue = (appointment: CalendarAppointment) => getServicesTotal(appointment.appointment_services);
+
+const appointmentsOnDay = (appointments: CalendarAppointment[], day: Date) =>
+  appointments.filter(appointment =>
+    parseISO(appointment.start_date) <= endOfDay(day) && parseISO(appointment.end_date) >= startOfDay(day)
+  );
+
+interface AppointmentEventProps {
+  appointment: CalendarAppointment;
+  onEdit: (appointment: CalendarAppointment) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+  style?: React.CSSProperties;
+  children: ReactNode;
+}
+
+function AppointmentEvent({ appointment, onEdit, onDelete, className, style, children }: AppointmentEventProps) {
+  const status = statusStyles[appointment.status] ?? statusStyles.scheduled;
+  const total = getTotalValue(appointment);
+  const { issueDocument, downloadingId } = useDocumentDownload();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          className={cn("w-full rounded border px-1 text-left text-xs truncate", status.event, className)}
+          style={style}
+        >
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h4 className="font-semibold">{appointment.title}</h4>
+            <span className="text-xs text-muted-foreground">{status.label}</span>
+          </div>
+          <div className="flex space-x-1">
+            {appointment.status === "completed" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Baixar fatura"
+                disabled={downloadingId === appointment.id}
+                onClick={() => issueDocument({ appointmentId: appointment.id })}
+              >
+                <FileText className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => onEdit(appointment)}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => onDelete(appointment.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <span>
+            {format(parseISO(appointment.start_date), "dd/MM/yyyy HH:mm", { locale: ptBR })} -
+            {format(parseISO(appointment.end_date), "HH:mm", { locale: ptBR })}
+          </span>
+        </div>
+        {appointment.clients && (
+          <div className="flex items-center space-x-2 text-sm">
+            <User className="h-4 w-4 text-muted-foreground" />
+            <span>{appointment.clients.name}</span>
+          </div>
+        )}
+        {appointment.location && (
+          <div className="flex items-center space-x-2 text-sm">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            <span>{appointment.location}</span>
+          </div>
+        )}
+        {appointment.description && (
+          <p className="text-sm text-muted-foreground">{appointment.description}</p>
+        )}
+        {total > 0 && (
+          <div className="flex items-center space-x-2 text-sm border-t pt-2">
+            <DollarSign className="h-4 w-4 text-success" />
+            <span className="font-semibold text-success">{formatCurrency(total)}</span>
+          </div>
+        )}
+        {appointment.transactions && (
+          <Link
+            to={`/caixa?transacao=${appointment.transactions.id}`}
+            className="flex items-center space-x-2 text-sm text-primary hover:underline"
+          >
+            <Wallet className="h-4 w-4" />
+            <span>Receita de {formatCurrency(appointment.transactions.amount)} no caixa</span>
+          </Link>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface CalendarViewProps {
+  days: Date[];
+  appointments: CalendarAppointment[];
+  onSlotClick: (start: Date) => void;
+  onEdit: (appointment: CalendarAppointment) => void;
+  onDelete: (id: string) => void;
+}
+
+interface MonthViewProps extends CalendarViewProps {
+  currentDate: Date;
+}
+
+export function MonthView({ days, currentDate, appointments, onSlotClick, onEdit, onDelete }: MonthViewProps) {
+  return (
+    <div className="rounded-md border bg-card">
+      <div className="grid grid-cols-7 border-b">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="p-2 text-center text-xs font-medium uppercase text-muted-foreground">
+            {format(day, "EEE", { locale: ptBR })}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayAppointments = appointmentsOnDay(appointments, day);
+          return (
+            <div
+              key={day.toISOString()}
+              onClick={() => onSlotClick(setHours(startOfDay(day), 9))}
+              className={cn(
+                "min-h-[110px] border-b border-r p-1 space-y-1 cursor-pointer hover:bg-muted/50",
+                !isSameMonth(day, currentDate) && "bg-muted/30 text-muted-foreground"
+              )}
+            >
+              <div
+                className={cn(
+                  "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full",
+                  isToday(day) && "bg-primary text-primary-foreground"
+                )}
+              >
+                {format(day, "d")}
+              </div>
+              {dayAppointments.slice(0, 3).map((appointment) => (
+                <AppointmentEvent
+                  key={appointment.id}
+                  appointment={appointment}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                >
+                  {isSameDay(parseISO(appointment.start_date), day) && format(parseISO(appointment.start_date), "HH:mm ")}
+                  {appointment.title}
+                </AppointmentEvent>
+              ))}
+              {dayAppointments.length > 3 && (
+                <div className="text-xs text-muted-foreground px-1">
+                  +{dayAppointments.length - 3} mais
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Distribui compromissos sobrepostos em colunas lado a lado
+const layoutDay = (appointments: CalendarAppointment[], day: Date) => {
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+  const items = appointmentsOnDay(appointments, day)
+    .map(appointment => ({
+      appointment,
+      start: maxDate([parseISO(appointment.start_date), dayStart]),
+      end: minDate([parseISO(appointment.end_date), dayEnd]),
+      lane: 0,
+      lanes: 1,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  let cluster: typeof items = [];
+  let clusterEnd = 0;
+  const closeCluster = () => {
+    const lanes = Math.max(1, ...cluster.map(item => item.lane + 1));
+    cluster.forEach(item => { item.lanes = lanes; });
+    cluster = [];
+  };
+
+  items.forEach(item => {
+    if (cluster.length > 0 && item.start.getTime() >= clusterEnd) {
+      closeCluster();
+    }
+    const usedLanes = cluster.filter(other => other.end > item.start).map(other => other.lane);
+    let lane = 0;
+    while (usedLanes.includes(lane)) lane++;
+    item.lane = lane;
+    cluster.push(item);
+    clusterEnd = Math.max(clusterEnd, item.end.getTime());
+  });
+  closeCluster();
+
+  return items.map(item => ({
+    ...item,
+    top: (differenceInMinutes(item.start, dayStart) / 60) * HOUR_HEIGHT,
+    height: Math.max((differenceInMinutes(item.end, item.start) / 60) * HOUR_HEIGHT, 18),
+  }));
+};
+
+export function TimeGridView({ days, appointments, onSlotClick, onEdit, onDelete }: CalendarViewProps) {
+  return (
+    <div className="rounded-md border bg-card">
+      <div className="flex border-b">
+        <div className="w-14 shrink-0" />
+        {days.map((day) => (
+          <div key={day.toISOString()} className="flex-1 p-2 text-center border-l">
+            <div className="text-xs uppercase text-muted-foreground">
+              {format(day, "EEE", { locale: ptBR })}
+            </div>
+            <div
+              className={cn(
+                "mx-auto text-lg font-semibold w-9 h-9 flex items-center justify-center rounded-full",
+                isToday(day) && "bg-primary text-primary-foreground"
+              )}
+            >
+              {format(day, "d")}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="max-h-[640px] overflow-y-auto">
+        <div className="flex relative">
+          <div className="w-14 shrink-0">
+            {HOURS.map((hour) => (
+              <div key={hour} className="text-xs text-muted-foreground text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+                {`${hour.toString().padStart(2, "0")}:00`}
+              </div>
+            ))}
+          </div>
+          {days.map((day) => (
+            <div key={day.toISOString()} className="flex-1 relative border-l">
+              {HOURS.map((hour) => (
+                <div
+                  key={hour}
+                  onClick={() => onSlotClick(setHours(startOfDay(day), hour))}
+                  className="border-b border-dashed cursor-pointer hover:bg-muted/50"
+                  style={{ height: HOUR_HEIGHT }}
+                />
+              ))}
+              {layoutDay(appointments, day).map(({ appointment, top, height, lane, lanes }) => (
+                <AppointmentEvent
+                  key={appointment.id}
+                  appointment={appointment}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  className="absolute py-0.5 whitespace-normal overflow-hidden"
+                  style={{
+                    top,
+                    height,
+                    left: `${(lane / lanes) * 100}%`,
+                    width: `${100 / lanes}%`,
+                  }}
+                >
+                  <span className="font-medium">{appointment.title}</span>
+                  <span className="block">
+                    {format(parseISO(appointment.start_date), "HH:mm")} - {format(parseISO(appointment.end_date), "HH:mm")}
+                  </span>
+                </AppointmentEvent>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
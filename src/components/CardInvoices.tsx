@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { AccountKind, TransactionType } from "@/lib/accounts";
+import { CardInvoice, InvoiceStatus, getCardInvoices, invoiceStatusLabels } from "@/lib/cardInvoices";
+import { ChevronDown, ChevronUp, CreditCard } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Transaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  account_id?: string;
+  invoice_due_date?: string;
+  categories?: { name: string; color: string };
+}
+
+interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  closing_day: number | null;
+  due_day: number | null;
+  archived: boolean;
+}
+
+interface CardInvoicesProps {
+  transactions: Transaction[];
+  accounts: Account[];
+  onChange: () => void;
+}
+
+interface PaymentTarget {
+  card: Account;
+  invoice: CardInvoice<Transaction>;
+}
+
+const statusVariants: Record<InvoiceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "outline",
+  closed: "secondary",
+  paid: "default",
+  overdue: "destructive",
+};
+
+export function CardInvoices({ transactions, accounts, onChange }: CardInvoicesProps) {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<PaymentTarget | null>(null);
+  const [paymentData, setPaymentData] = useState({ from_account_id: "", amount: "", paid_at: "" });
+  const [loading, setLoading] = useState(false);
+
+  const cards = accounts.filter(account => account.kind === "card" && (!account.archived || transactions.some(t => t.account_id === account.id)));
+  const payingAccounts = accounts.filter(account => account.kind !== "card" && !account.archived);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const openPayment = (card: Account, invoice: CardInvoice<Transaction>) => {
+    setPaymentTarget({ card, invoice });
+    setPaymentData({
+      from_account_id: payingAccounts[0]?.id ?? "",
+      amount: invoice.balance.toFixed(2),
+      paid_at: format(new Date(), "yyyy-MM-dd"),
+    });
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentTarget) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("pay_card_invoice", {
+        p_card_account_id: paymentTarget.card.id,
+        p_from_account_id: paymentData.from_account_id,
+        p_invoice_due_date: paymentTarget.invoice.dueDate,
+        p_amount: parseFloat(paymentData.amount),
+        p_paid_at: paymentData.paid_at,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Pagamento da fatura registrado",
+      });
+      setPaymentTarget(null);
+      onChange();
+    } catch (error) {
+      console.error("Erro ao pagar fatura:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao registrar pagamento da fatura",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (cards.length === 0) {
+    return (
+      <Card className="shadow-md">
+        <CardContent className="p-8 text-center">
+          <CreditCard className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">
+            Cadastre uma conta do tipo cartão para acompanhar as faturas
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {cards.map((card) => {
+        const invoices = getCardInvoices(card, transactions);
+
+        return (
+          <Card key={card.id} className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CreditCard className="h-5 w-5 mr-2" />
+                {card.name}
+              </CardTitle>
+              <CardDescription>
+                Fecha dia {card.closing_day}, vence dia {card.due_day}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invoices.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhuma compra lançada neste cartão</p>
+              )}
+              {invoices.map((invoice) => {
+                const key = `${card.id}:${invoice.dueDate}`;
+                const expanded = expandedKey === key;
+
+                return (
+                  <div key={key} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium capitalize">
+                            {format(parseISO(invoice.dueDate), "MMMM 'de' yyyy", { locale: ptBR })}
+                          </span>
+                          <Badge variant={statusVariants[invoice.status]}>
+                            {invoiceStatusLabels[invoice.status]}
+                          </Badge>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          Fecha em {format(parseISO(invoice.closingDate), "dd/MM/yyyy")} · vence em{" "}
+                          {format(parseISO(invoice.dueDate), "dd/MM/yyyy")}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <div className="text-right">
+                          <div className="font-bold">{formatCurrency(invoice.total)}</div>
+                          {invoice.paid > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              Pago {formatCurrency(invoice.paid)}
+                            </div>
+                          )}
+                        </div>
+                        {invoice.balance > 0 && invoice.status !== "open" && (
+                          <Button
+                            size="sm"
+                            className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                            onClick={() => openPayment(card, invoice)}
+                          >
+                            Pagar fatura
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExpandedKey(expanded ? null : key)}
+                        >
+                          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                    {expanded && (
+                      <div className="mt-3 space-y-1 border-t pt-3 text-sm">
+                        {[...invoice.charges, ...invoice.payments]
+                          .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date))
+                          .map((entry) => (
+                            <div key={entry.id} className="flex justify-between">
+                              <span>
+                                <span className="text-muted-foreground mr-2">
+                                  {format(parseISO(entry.transaction_date), "dd/MM")}
+                                </span>
+                                {entry.description}
+                                {entry.categories && (
+                                  <span className="text-muted-foreground"> · {entry.categories.name}</span>
+                                )}
+                              </span>
+                              <span className={entry.type === "expense" ? "" : "text-success"}>
+                                {entry.type === "expense" ? "" : "- "}
+                                {formatCurrency(Number(entry.amount))}
+                              </span>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={!!paymentTarget} onOpenChange={(open) => !open && setPaymentTarget(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Pagar Fatura</DialogTitle>
+            <DialogDescription>
+              {paymentTarget && (
+                <>
+                  {paymentTarget.card.name} · vencimento{" "}
+                  {format(parseISO(paymentTarget.invoice.dueDate), "dd/MM/yyyy")} · em aberto{" "}
+                  {formatCurrency(paymentTarget.invoice.balance)}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePay}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoice_from">Pagar com *</Label>
+                <Select
+                  value={paymentData.from_account_id}
+                  onValueChange={(value) => setPaymentData({ ...paymentData, from_account_id: value })}
+                >
+                  <SelectTrigger id="invoice_from">
+                    <SelectValue placeholder="Conta de origem" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payingAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoice_amount">Valor *</Label>
+                  <Input
+                    id="invoice_amount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    max={paymentTarget?.invoice.balance}
+                    value={paymentData.amount}
+                    onChange={(e) => setPaymentData({ ...paymentData, amount: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice_paid_at">Data *</Label>
+                  <Input
+                    id="invoice_paid_at"
+                    type="date"
+                    value={paymentData.paid_at}
+                    onChange={(e) => setPaymentData({ ...paymentData, paid_at: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={loading || !paymentData.from_account_id}
+                className="bg-gradient-primary hover:opacity-90 transition-opacity"
+              >
+                {loading ? "Salvando..." : "Registrar pagamento"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
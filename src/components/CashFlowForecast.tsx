@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { TransactionType } from "@/lib/accounts";
+import {
+  FORECAST_DAYS,
+  ForecastDay,
+  buildForecast,
+  getCurrentCashBalance,
+  getForecastEvents,
+  getNegativePeriods,
+} from "@/lib/forecast";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { AlertTriangle, LineChart as LineChartIcon } from "lucide-react";
+import { addDays, endOfDay, format, parseISO, startOfDay } from "date-fns";
+
+const forecastChartConfig = {
+  balance: { label: "Saldo previsto", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+};
+
+const formatDay = (date: string) => format(parseISO(date), "dd/MM");
+
+export function CashFlowForecast() {
+  const [days, setDays] = useState<ForecastDay[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchForecast();
+  }, []);
+
+  const fetchForecast = async () => {
+    try {
+      const now = new Date();
+      const today = format(now, "yyyy-MM-dd");
+      const until = format(addDays(now, FORECAST_DAYS), "yyyy-MM-dd");
+
+      const [accountsRes, transactionsRes, appointmentsRes, receivablesRes, recurringRes, overridesRes] = await Promise.all([
+        supabase
+          .from("accounts")
+          .select("id, kind, opening_balance, closing_day, due_day"),
+        supabase
+          .from("transactions")
+          .select("id, type, amount, description, transaction_date, account_id, invoice_due_date"),
+        supabase
+          .from("appointments")
+          .select("title, start_date, appointment_services (price, quantity), receivables (id), transactions (id)")
+          .eq("status", "scheduled")
+          .gte("start_date", startOfDay(now).toISOString())
+          .lte("start_date", endOfDay(parseISO(until)).toISOString()),
+        supabase
+          .from("receivables")
+          .select("description, amount, due_date, transactions (amount)")
+          .lte("due_date", until),
+        supabase
+          .from("recurring_transactions")
+          .select("id, type, amount, description, frequency, start_date, end_date")
+          .eq("active", true),
+        supabase
+          .from("recurring_transaction_overrides")
+          .select("recurring_id, occurrence_date, skipped, amount, description")
+          .gt("occurrence_date", today)
+          .lte("occurrence_date", until)
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      if (appointmentsRes.error) throw appointmentsRes.error;
+      if (receivablesRes.error) throw receivablesRes.error;
+      if (recurringRes.error) throw recurringRes.error;
+      if (overridesRes.error) throw overridesRes.error;
+
+      const accounts = accountsRes.data || [];
+      const transactions = (transactionsRes.data || []).map(t => ({ ...t, type: t.type as TransactionType }));
+      const events = getForecastEvents({
+        accounts,
+        transactions,
+        appointments: appointmentsRes.data || [],
+        receivables: receivablesRes.data || [],
+        recurring: recurringRes.data || [],
+        recurringOverrides: overridesRes.data || [],
+      }, today, until);
+
+      setDays(buildForecast(getCurrentCashBalance(accounts, transactions, today), events, today));
+    } catch (error) {
+      console.error("Erro ao calcular previsão de caixa:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao calcular a previsão de caixa",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || days.length === 0) return null;
+
+  const negativePeriods = getNegativePeriods(days);
+  const lowest = days.reduce((min, day) => (day.balance < min.balance ? day : min), days[0]);
+  const last = days[days.length - 1];
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LineChartIcon className="h-5 w-5 mr-2" />
+          Previsão de Caixa
+        </CardTitle>
+        <CardDescription>
+          Próximos {FORECAST_DAYS} dias: saldo atual, compromissos agendados, parcelas a receber,
+          recorrências e faturas de cartão
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <p className="text-sm text-muted-foreground">Saldo hoje</p>
+            <p className="text-xl font-bold">{formatCurrency(days[0].balance)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Menor saldo ({formatDay(lowest.date)})</p>
+            <p className={`text-xl font-bold ${lowest.balance < 0 ? "text-destructive" : ""}`}>
+              {formatCurrency(lowest.balance)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Em {formatDay(last.date)}</p>
+            <p className={`text-xl font-bold ${last.balance < 0 ? "text-destructive" : "text-success"}`}>
+              {formatCurrency(last.balance)}
+            </p>
+          </div>
+        </div>
+
+        {negativePeriods.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Saldo negativo previsto</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {negativePeriods.map((period) => (
+                  <li key={period.start}>
+                    {period.start === period.end
+                      ? `Em ${formatDay(period.start)}`
+                      : `De ${formatDay(period.start)} a ${formatDay(period.end)}`}
+                    , chegando a {formatCurrency(period.lowest)}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <ChartContainer config={forecastChartConfig} className="h-[300px] w-full">
+          <LineChart data={days} margin={{ left: 16, right: 16 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickFormatter={formatDay} minTickGap={24} />
+            <YAxis tickFormatter={(value) => formatCurrency(Number(value))} width={100} />
+            {negativePeriods.map((period) => (
+              <ReferenceArea
+                key={period.start}
+                x1={period.start}
+                x2={period.end}
+                fill="hsl(var(--destructive))"
+                fillOpacity={0.1}
+              />
+            ))}
+            <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(value) => format(parseISO(String(value)), "dd/MM/yyyy")}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+              }
+            />
+            <Line type="stepAfter" dataKey="balance" stroke="var(--color-balance)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,413 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Edit, Trash2, Archive, ArchiveRestore, Check } from "lucide-react";
+
+interface Category {
+  id: string;
+  name: string;
+  type: "income" | "expense";
+  color: string;
+  description?: string;
+  archived: boolean;
+  transactions: { count: number }[];
+  recurring_transactions: { count: number }[];
+  category_budgets: { count: number }[];
+}
+
+interface CategoryManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;
+}
+
+const PRESET_COLORS = [
+  "#8B5CF6", "#EC4899", "#EF4444", "#F97316", "#EAB308",
+  "#84CC16", "#10B981", "#06B6D4", "#3B82F6", "#64748B",
+];
+
+const emptyForm = {
+  name: "",
+  type: "expense" as "income" | "expense",
+  color: PRESET_COLORS[0],
+  description: "",
+};
+
+export function CategoryManager({ open, onOpenChange, onChange }: CategoryManagerProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      fetchCategories();
+      setEditingCategory(null);
+      setFormData(emptyForm);
+    }
+  }, [open]);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*, transactions(count), recurring_transactions(count), category_budgets(count)")
+        .order("archived")
+        .order("name");
+
+      if (error) throw error;
+      setCategories(data as Category[] || []);
+    } catch (error) {
+      console.error("Erro ao carregar categorias:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar categorias",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getTransactionCount = (category: Category) => category.transactions[0]?.count ?? 0;
+
+  // Transações, recorrências e orçamentos impedem a exclusão sem uma categoria de destino
+  const getUsage = (category: Category) => {
+    const transactions = getTransactionCount(category);
+    const rules = category.recurring_transactions[0]?.count ?? 0;
+    const budgets = category.category_budgets[0]?.count ?? 0;
+    return [
+      ...(transactions ? [`${transactions} ${transactions === 1 ? "transação" : "transações"}`] : []),
+      ...(rules ? [`${rules} ${rules === 1 ? "recorrência" : "recorrências"}`] : []),
+      ...(budgets ? [`${budgets} ${budgets === 1 ? "orçamento" : "orçamentos"}`] : []),
+    ];
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const categoryData = {
+        name: formData.name,
+        type: formData.type,
+        color: formData.color,
+        description: formData.description || null,
+      };
+
+      if (editingCategory) {
+        const { error } = await supabase
+          .from("categories")
+          .update(categoryData)
+          .eq("id", editingCategory.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Categoria atualizada com sucesso",
+        });
+      } else {
+        const { error } = await supabase
+          .from("categories")
+          .insert([categoryData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Categoria criada com sucesso",
+        });
+      }
+
+      setEditingCategory(null);
+      setFormData(emptyForm);
+      fetchCategories();
+      onChange();
+    } catch (error) {
+      console.error("Erro ao salvar categoria:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar categoria",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      type: category.type,
+      color: category.color || PRESET_COLORS[0],
+      description: category.description || "",
+    });
+  };
+
+  const handleArchive = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .update({ archived: !category.archived })
+        .eq("id", category.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: category.archived ? "Categoria reativada" : "Categoria arquivada",
+      });
+      fetchCategories();
+      onChange();
+    } catch (error) {
+      console.error("Erro ao arquivar categoria:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao arquivar categoria",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (getUsage(category).length > 0) {
+      setReassignTo("");
+      setDeletingCategory(category);
+      return;
+    }
+
+    if (!confirm("Tem certeza que deseja excluir esta categoria?")) return;
+    await deleteCategory(category, null);
+  };
+
+  const deleteCategory = async (category: Category, target: string | null) => {
+    try {
+      const { error } = await supabase.rpc("delete_category", {
+        p_category_id: category.id,
+        p_reassign_to: target ?? undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Categoria excluída com sucesso",
+      });
+      setDeletingCategory(null);
+      fetchCategories();
+      onChange();
+    } catch (error) {
+      console.error("Erro ao excluir categoria:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir categoria",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reassignOptions = categories.filter(category =>
+    deletingCategory && category.type === deletingCategory.type && category.id !== deletingCategory.id
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categorias</DialogTitle>
+          <DialogDescription>
+            Crie, edite e arquive as categorias de receitas e despesas
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 rounded-md border p-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Nome *</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-type">Tipo *</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => setFormData({ ...formData, type: value as "income" | "expense" })}
+                disabled={!!editingCategory && getTransactionCount(editingCategory) > 0}
+              >
+                <SelectTrigger id="category-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="income">Receita</SelectItem>
+                  <SelectItem value="expense">Despesa</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-color">Cor</Label>
+            <div className="flex items-center gap-2 flex-wrap">
+              {PRESET_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, color })}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2 flex items-center justify-center",
+                    formData.color.toLowerCase() === color.toLowerCase() ? "border-foreground" : "border-transparent"
+                  )}
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                >
+                  {formData.color.toLowerCase() === color.toLowerCase() && <Check className="h-4 w-4 text-white" />}
+                </button>
+              ))}
+              <Input
+                id="category-color"
+                type="color"
+                value={formData.color}
+                onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                className="h-8 w-14 p-1"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-description">Descrição</Label>
+            <Textarea
+              id="category-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            {editingCategory && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setEditingCategory(null);
+                  setFormData(emptyForm);
+                }}
+              >
+                Cancelar
+              </Button>
+            )}
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : (editingCategory ? "Atualizar" : "Criar Categoria")}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          {categories.map((category) => (
+            <div
+              key={category.id}
+              className={cn("flex items-center justify-between rounded-md border p-3", category.archived && "opacity-60")}
+            >
+              <div className="flex items-center space-x-3">
+                <span className="h-4 w-4 rounded-full" style={{ backgroundColor: category.color }} />
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{category.name}</span>
+                    <Badge variant={category.type === "income" ? "default" : "destructive"}>
+                      {category.type === "income" ? "Receita" : "Despesa"}
+                    </Badge>
+                    {category.archived && <Badge variant="outline">Arquivada</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {getTransactionCount(category)} {getTransactionCount(category) === 1 ? "transação" : "transações"}
+                  </span>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(category)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleArchive(category)}>
+                  {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(category)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+
+      <AlertDialog open={!!deletingCategory} onOpenChange={(isOpen) => !isOpen && setDeletingCategory(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reatribuir transações</AlertDialogTitle>
+            <AlertDialogDescription>
+              A categoria "{deletingCategory?.name}" possui{" "}
+              {deletingCategory && getUsage(deletingCategory).join(", ")}
+              . Escolha para qual categoria movê-los antes de excluir.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={reassignTo} onValueChange={setReassignTo}>
+            <SelectTrigger>
+              <SelectValue placeholder="Selecione a nova categoria" />
+            </SelectTrigger>
+            <SelectContent>
+              {reassignOptions.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}{category.archived ? " (arquivada)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!reassignTo}
+              onClick={() => deletingCategory && deleteCategory(deletingCategory, reassignTo)}
+            >
+              Mover e excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
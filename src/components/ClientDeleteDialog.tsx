@@ -0,0 +1,315 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+
+interface Client {
+  id: string;
+  name: string;
+  archived: boolean;
+}
+
+interface LinkedAppointment {
+  id: string;
+  title: string;
+  start_date: string;
+}
+
+interface LinkedTransaction {
+  id: string;
+  type: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+}
+
+interface ClientDeleteDialogProps {
+  client: Client | null;
+  clients: Client[];
+  onOpenChange: (open: boolean) => void;
+  onDone: () => void;
+}
+
+type DeleteAction = "archive" | "reassign" | "detach";
+
+export function ClientDeleteDialog({ client, clients, onOpenChange, onDone }: ClientDeleteDialogProps) {
+  const [appointments, setAppointments] = useState<LinkedAppointment[]>([]);
+  const [transactions, setTransactions] = useState<LinkedTransaction[]>([]);
+  const [otherLinks, setOtherLinks] = useState<string[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [action, setAction] = useState<DeleteAction>("archive");
+  const [reassignTo, setReassignTo] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (client) {
+      setAction("archive");
+      setReassignTo("");
+      fetchLinks(client.id);
+    }
+  }, [client]);
+
+  const fetchLinks = async (clientId: string) => {
+    setLoading(true);
+    setLoadFailed(false);
+    try {
+      const [appointmentsRes, transactionsRes, receivablesRes, quotesRes, notesRes, documentsRes] = await Promise.all([
+        supabase
+          .from("appointments")
+          .select("id, title, start_date")
+          .eq("client_id", clientId)
+          .order("start_date", { ascending: false }),
+        supabase
+          .from("transactions")
+          .select("id, type, amount, description, transaction_date")
+          .eq("client_id", clientId)
+          .order("transaction_date", { ascending: false }),
+        supabase
+          .from("receivables")
+          .select("*", { count: "exact", head: true })
+          .eq("client_id", clientId),
+        supabase
+          .from("quotes")
+          .select("*", { count: "exact", head: true })
+          .eq("client_id", clientId),
+        supabase
+          .from("client_notes")
+          .select("*", { count: "exact", head: true })
+          .eq("client_id", clientId),
+        supabase
+          .from("documents")
+          .select("*", { count: "exact", head: true })
+          .eq("client_id", clientId)
+      ]);
+
+      if (appointmentsRes.error) throw appointmentsRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      if (receivablesRes.error) throw receivablesRes.error;
+      if (quotesRes.error) throw quotesRes.error;
+      if (notesRes.error) throw notesRes.error;
+      if (documentsRes.error) throw documentsRes.error;
+
+      const describe = (count: number | null, singular: string, plural: string) =>
+        count ? [`${count} ${count === 1 ? singular : plural}`] : [];
+
+      setAppointments(appointmentsRes.data || []);
+      setTransactions(transactionsRes.data || []);
+      setOtherLinks([
+        ...describe(receivablesRes.count, "parcela", "parcelas"),
+        ...describe(quotesRes.count, "orçamento", "orçamentos"),
+        ...describe(notesRes.count, "anotação", "anotações"),
+        ...describe(documentsRes.count, "documento", "documentos"),
+      ]);
+    } catch (error) {
+      setLoadFailed(true);
+      console.error("Erro ao carregar vínculos do cliente:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar vínculos do cliente",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasLinks = appointments.length > 0 || transactions.length > 0 || otherLinks.length > 0;
+
+  const handleConfirm = async () => {
+    if (!client) return;
+    setSaving(true);
+
+    try {
+      if (hasLinks && action === "archive") {
+        const { error } = await supabase
+          .from("clients")
+          .update({ archived: true })
+          .eq("id", client.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.rpc("delete_client", {
+          p_client_id: client.id,
+          p_reassign_to: hasLinks && action === "reassign" ? reassignTo : undefined,
+          p_detach: hasLinks && action === "detach",
+        });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Sucesso",
+        description: hasLinks && action === "archive" ? "Cliente arquivado com sucesso" : "Cliente excluído com sucesso",
+      });
+      onOpenChange(false);
+      onDone();
+    } catch (error) {
+      console.error("Erro ao excluir cliente:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir cliente",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const reassignOptions = clients.filter(option => option.id !== client?.id && !option.archived);
+
+  return (
+    <Dialog open={!!client} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Excluir Cliente</DialogTitle>
+          <DialogDescription>
+            {loading
+              ? "Verificando compromissos e lançamentos vinculados..."
+              : loadFailed
+                ? "Não foi possível verificar o histórico do cliente. Feche e tente novamente."
+                : hasLinks
+                ? `"${client?.name}" possui histórico vinculado. Escolha o que fazer com ele.`
+                : `"${client?.name}" não possui histórico vinculado e será excluído definitivamente.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!loading && !loadFailed && hasLinks && (
+          <div className="space-y-4">
+            {appointments.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">
+                  {appointments.length} {appointments.length === 1 ? "compromisso" : "compromissos"}
+                </p>
+                <div className="max-h-32 overflow-y-auto rounded-md border p-2 text-sm">
+                  {appointments.map((appointment) => (
+                    <div key={appointment.id} className="flex justify-between">
+                      <span>{appointment.title}</span>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(appointment.start_date), "dd/MM/yyyy")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {transactions.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">
+                  {transactions.length} {transactions.length === 1 ? "transação" : "transações"}
+                </p>
+                <div className="max-h-32 overflow-y-auto rounded-md border p-2 text-sm">
+                  {transactions.map((transaction) => (
+                    <div key={transaction.id} className="flex justify-between">
+                      <span>
+                        <span className="text-muted-foreground mr-2">
+                          {format(parseISO(transaction.transaction_date), "dd/MM/yyyy")}
+                        </span>
+                        {transaction.description}
+                      </span>
+                      <span className={transaction.type === "income" ? "text-success" : "text-destructive"}>
+                        {formatCurrency(Number(transaction.amount))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {otherLinks.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {otherLinks.map((link) => (
+                  <Badge key={link} variant="secondary">+ {link}</Badge>
+                ))}
+              </div>
+            )}
+
+            <RadioGroup value={action} onValueChange={(value) => setAction(value as DeleteAction)} className="space-y-2">
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="archive" id="delete-archive" className="mt-1" />
+                <Label htmlFor="delete-archive" className="font-normal">
+                  <span className="font-medium">Arquivar</span>
+                  <span className="block text-muted-foreground">
+                    Mantém todo o histórico e esconde o cliente dos formulários
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="reassign" id="delete-reassign" className="mt-1" />
+                <Label htmlFor="delete-reassign" className="font-normal">
+                  <span className="font-medium">Transferir para outro cliente</span>
+                  <span className="block text-muted-foreground">
+                    Move compromissos, lançamentos, parcelas e anotações e exclui este cliente
+                  </span>
+                </Label>
+              </div>
+              {action === "reassign" && (
+                <Select value={reassignTo} onValueChange={setReassignTo}>
+                  <SelectTrigger className="ml-6 w-auto">
+                    <SelectValue placeholder="Selecione o cliente de destino" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reassignOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="detach" id="delete-detach" className="mt-1" />
+                <Label htmlFor="delete-detach" className="font-normal">
+                  <span className="font-medium">Desvincular e excluir</span>
+                  <span className="block text-muted-foreground">
+                    O histórico fica sem cliente; as anotações são apagadas
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            variant={hasLinks && action === "archive" ? "default" : "destructive"}
+            disabled={loading || loadFailed || saving || (hasLinks && action === "reassign" && !reassignTo)}
+            onClick={handleConfirm}
+          >
+            {saving
+              ? "Salvando..."
+              : hasLinks && action === "archive" ? "Arquivar" : "Excluir"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { DuplicateCandidate, findDuplicateClients } from "@/lib/clientDuplicates";
+import { format, parseISO } from "date-fns";
+
+interface Client {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  created_at: string;
+}
+
+interface ClientDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clients: Client[];
+  onMerged: () => void;
+}
+
+type MergeField = "name" | "email" | "phone" | "address";
+
+const fieldLabels: Record<MergeField, string> = {
+  name: "Nome",
+  email: "Email",
+  phone: "Telefone",
+  address: "Endereço",
+};
+
+const mergeFields = Object.keys(fieldLabels) as MergeField[];
+
+export function ClientDuplicatesDialog({ open, onOpenChange, clients, onMerged }: ClientDuplicatesDialogProps) {
+  const [merging, setMerging] = useState<DuplicateCandidate<Client> | null>(null);
+  const [keepId, setKeepId] = useState("");
+  const [choices, setChoices] = useState<Record<MergeField, string>>({ name: "", email: "", phone: "", address: "" });
+  const [loading, setLoading] = useState(false);
+
+  const candidates = useMemo(() => findDuplicateClients(clients), [clients]);
+
+  // Fica o cadastro mais antigo; de cada campo, o valor dele ou, se vazio, o do outro
+  const startMerge = (candidate: DuplicateCandidate<Client>) => {
+    const [keep, other] = candidate.a.created_at <= candidate.b.created_at
+      ? [candidate.a, candidate.b]
+      : [candidate.b, candidate.a];
+
+    setMerging(candidate);
+    setKeepId(keep.id);
+    setChoices(Object.fromEntries(
+      mergeFields.map(field => [field, keep[field] ? keep.id : other[field] ? other.id : keep.id])
+    ) as Record<MergeField, string>);
+  };
+
+  const getValue = (field: MergeField) => {
+    if (!merging) return "";
+    const source = choices[field] === merging.a.id ? merging.a : merging.b;
+    return source[field] ?? "";
+  };
+
+  const handleMerge = async () => {
+    if (!merging) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("merge_clients", {
+        p_keep_id: keepId,
+        p_merge_id: keepId === merging.a.id ? merging.b.id : merging.a.id,
+        p_name: getValue("name"),
+        p_email: getValue("email") || undefined,
+        p_phone: getValue("phone") || undefined,
+        p_address: getValue("address") || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Clientes mesclados com sucesso",
+      });
+      setMerging(null);
+      onMerged();
+    } catch (error) {
+      console.error("Erro ao mesclar clientes:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao mesclar clientes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderSummary = (client: Client) => (
+    <div className="min-w-0">
+      <p className="font-medium truncate">{client.name}</p>
+      <p className="text-xs text-muted-foreground truncate">
+        {[client.email, client.phone].filter(Boolean).join(" · ") || "Sem contato"}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Cadastrado em {format(parseISO(client.created_at), "dd/MM/yyyy")}
+      </p>
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setMerging(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+        {!merging ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Clientes Duplicados</DialogTitle>
+              <DialogDescription>
+                Cadastros parecidos por nome, email ou telefone
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              {candidates.map((candidate) => (
+                <div key={`${candidate.a.id}:${candidate.b.id}`} className="rounded-md border p-3 space-y-2">
+                  <div className="grid grid-cols-2 gap-4">
+                    {renderSummary(candidate.a)}
+                    {renderSummary(candidate.b)}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={candidate.score >= 80 ? "destructive" : "secondary"}>
+                        {candidate.score}%
+                      </Badge>
+                      {candidate.reasons.map((reason) => (
+                        <Badge key={reason} variant="outline">{reason}</Badge>
+                      ))}
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => startMerge(candidate)}>
+                      Mesclar
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {candidates.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Nenhum cadastro duplicado encontrado
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Mesclar Clientes</DialogTitle>
+              <DialogDescription>
+                Escolha o valor de cada campo. Compromissos, lançamentos, parcelas, orçamentos e
+                anotações do cadastro removido passam para o que fica.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Manter o cadastro de</Label>
+                <RadioGroup value={keepId} onValueChange={setKeepId} className="grid grid-cols-2 gap-4">
+                  {[merging.a, merging.b].map((client) => (
+                    <div key={client.id} className="flex items-center space-x-2">
+                      <RadioGroupItem value={client.id} id={`keep-${client.id}`} />
+                      <Label htmlFor={`keep-${client.id}`} className="font-normal">
+                        {format(parseISO(client.created_at), "dd/MM/yyyy")}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+              {mergeFields.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>{fieldLabels[field]}</Label>
+                  <RadioGroup
+                    value={choices[field]}
+                    onValueChange={(value) => setChoices({ ...choices, [field]: value })}
+                    className="grid grid-cols-2 gap-4"
+                  >
+                    {[merging.a, merging.b].map((client) => (
+                      <div key={client.id} className="flex items-center space-x-2 min-w-0">
+                        <RadioGroupItem value={client.id} id={`${field}-${client.id}`} />
+                        <Label
+                          htmlFor={`${field}-${client.id}`}
+                          className={`font-normal truncate ${client[field] ? "" : "text-muted-foreground italic"}`}
+                        >
+                          {client[field] || "vazio"}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setMerging(null)}>
+                Voltar
+              </Button>
+              <Button
+                disabled={loading || !getValue("name")}
+                onClick={handleMerge}
+                className="bg-gradient-primary hover:opacity-90 transition-opacity"
+              >
+                {loading ? "Mesclando..." : "Mesclar"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
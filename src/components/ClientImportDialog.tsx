@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { decodeStatementFile, splitCSV } from "@/lib/statementImport";
+import {
+  ColumnMapping,
+  ContactField,
+  ImportRowStatus,
+  ImportedContact,
+  contactFieldLabels,
+  guessColumnMapping,
+  importRowStatusLabels,
+  mapCSVRows,
+  parseVCard,
+  planClientImport,
+} from "@/lib/clientImport";
+import { Upload } from "lucide-react";
+
+interface Client {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+interface CSVFile {
+  header: string[];
+  rows: string[][];
+}
+
+interface ClientImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clients: Client[];
+  onImported: () => void;
+}
+
+const contactFields = Object.keys(contactFieldLabels) as ContactField[];
+
+const statusVariants: Record<ImportRowStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  new: "outline",
+  update: "default",
+  duplicate: "secondary",
+  invalid: "destructive",
+};
+
+export function ClientImportDialog({ open, onOpenChange, clients, onImported }: ClientImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [csv, setCSV] = useState<CSVFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: -1, email: -1, phone: -1, address: -1 });
+  const [vcardContacts, setVCardContacts] = useState<ImportedContact[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFileName("");
+      setCSV(null);
+      setVCardContacts([]);
+    }
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      const text = decodeStatementFile(await file.arrayBuffer());
+
+      if (/\.vcf$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text)) {
+        const contacts = parseVCard(text);
+        if (contacts.length === 0) throw new Error("Nenhum contato no arquivo");
+
+        setCSV(null);
+        setVCardContacts(contacts);
+      } else {
+        const [header, ...rows] = splitCSV(text);
+        if (!header || rows.length === 0) throw new Error("Nenhuma linha no arquivo");
+
+        setVCardContacts([]);
+        setCSV({ header, rows });
+        setMapping(guessColumnMapping(header));
+      }
+
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Erro ao ler contatos:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao ler o arquivo de contatos",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const contacts = csv ? (mapping.name >= 0 ? mapCSVRows(csv.rows, mapping) : []) : vcardContacts;
+  const rows = planClientImport(contacts, clients);
+
+  const newRows = rows.filter(row => row.status === "new");
+  const updateRows = rows.filter(row => row.status === "update");
+  const rejectedCount = rows.length - newRows.length - updateRows.length;
+
+  const handleImport = async () => {
+    setImporting(true);
+
+    try {
+      if (newRows.length > 0) {
+        const { error } = await supabase
+          .from("clients")
+          .insert(newRows.map(({ contact }) => ({
+            name: contact.name,
+            email: contact.email || null,
+            phone: contact.phone || null,
+            address: contact.address || null,
+          })));
+
+        if (error) throw error;
+      }
+
+      for (const row of updateRows) {
+        if (!row.existing || !row.changes) continue;
+
+        const { error } = await supabase
+          .from("clients")
+          .update(row.changes)
+          .eq("id", row.existing.id);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Sucesso",
+        description: `${newRows.length} ${newRows.length === 1 ? "criado" : "criados"}, ` +
+          `${updateRows.length} ${updateRows.length === 1 ? "atualizado" : "atualizados"}, ` +
+          `${rejectedCount} ${rejectedCount === 1 ? "rejeitado" : "rejeitados"}`,
+      });
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error("Erro ao importar clientes:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao importar clientes",
+        variant: "destructive",
+      });
+      onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Importar Clientes</DialogTitle>
+          <DialogDescription>
+            Envie uma planilha CSV ou um arquivo de contatos .vcf e revise o resultado antes de importar
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="client_import_file">Arquivo de contatos</Label>
+          <Input
+            id="client_import_file"
+            type="file"
+            accept=".csv,.txt,.vcf"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {csv && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {contactFields.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`mapping_${field}`}>
+                  {contactFieldLabels[field]}{field === "name" && " *"}
+                </Label>
+                <Select
+                  value={String(mapping[field])}
+                  onValueChange={(value) => setMapping({ ...mapping, [field]: Number(value) })}
+                >
+                  <SelectTrigger id={`mapping_${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="-1">Não importar</SelectItem>
+                    {csv.header.map((column, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {column.trim() || `Coluna ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {csv && mapping.name < 0 && (
+          <p className="text-sm text-muted-foreground">
+            Escolha a coluna com o nome do cliente para ver a prévia
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Telefone</TableHead>
+                  <TableHead>Endereço</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow
+                    key={index}
+                    className={row.status === "duplicate" || row.status === "invalid" ? "opacity-50" : undefined}
+                  >
+                    <TableCell>{row.contact.name}</TableCell>
+                    <TableCell>{row.contact.email}</TableCell>
+                    <TableCell className="whitespace-nowrap">{row.contact.phone}</TableCell>
+                    <TableCell>{row.contact.address}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={statusVariants[row.status]}
+                        title={row.status === "update" ? `Completa o cadastro de ${row.existing?.name}` : row.reason}
+                      >
+                        {importRowStatusLabels[row.status]}
+                      </Badge>
+                      {row.reason && (
+                        <p className="text-xs text-muted-foreground mt-1">{row.reason}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {fileName && (
+            <p className="text-sm text-muted-foreground mr-auto self-center">
+              {fileName} · {newRows.length} {newRows.length === 1 ? "novo" : "novos"},
+              {" "}{updateRows.length} {updateRows.length === 1 ? "atualização" : "atualizações"},
+              {" "}{rejectedCount} {rejectedCount === 1 ? "rejeitado" : "rejeitados"}
+            </p>
+          )}
+          <Button
+            className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            disabled={newRows.length + updateRows.length === 0 || importing}
+            onClick={handleImport}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importing ? "Importando..." : "Importar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
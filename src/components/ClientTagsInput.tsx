@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { normalizeTags } from "@/lib/clientSegments";
+import { X } from "lucide-react";
+
+interface ClientTagsInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+}
+
+export function ClientTagsInput({ id, value, onChange, suggestions }: ClientTagsInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addDraft = () => {
+    if (!draft.trim()) return;
+    onChange(normalizeTags([...value, ...draft.split(",")]));
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addDraft();
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remover ${tag}`}
+                onClick={() => onChange(value.filter(other => other !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        placeholder="Digite e pressione Enter"
+        list={id ? `${id}_suggestions` : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addDraft}
+      />
+      {id && (
+        <datalist id={`${id}_suggestions`}>
+          {suggestions.filter(tag => !value.includes(tag)).map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { PaymentPlanItem, buildPaymentPlan, getPlanTotalCents, toCents } from "@/lib/paymentPlan";
+import { CalendarClock, Check, QrCode, X } from "lucide-react";
+import { format, addMonths } from "date-fns";
+
+interface PaymentPlanEditorProps {
+  plan: PaymentPlanItem[];
+  onChange: (plan: PaymentPlanItem[]) => void;
+  total: number;
+  defaultDepositDate: string;
+  locked: boolean;
+  canPay: boolean;
+  onPay: (item: PaymentPlanItem) => void;
+  onCharge: (item: PaymentPlanItem) => void;
+}
+
+export function PaymentPlanEditor({
+  plan,
+  onChange,
+  total,
+  defaultDepositDate,
+  locked,
+  canPay,
+  onPay,
+  onCharge,
+}: PaymentPlanEditorProps) {
+  const [settings, setSettings] = useState({
+    deposit_percent: "30",
+    installments: "2",
+    first_due_date: "",
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const generatePlan = () => {
+    const depositDate = defaultDepositDate || format(new Date(), "yyyy-MM-dd");
+
+    onChange(buildPaymentPlan({
+      total,
+      depositPercent: parseFloat(settings.deposit_percent) || 0,
+      installments: parseInt(settings.installments) || 0,
+      depositDate,
+      firstDueDate: settings.first_due_date || format(addMonths(new Date(`${depositDate}T00:00:00`), 1), "yyyy-MM-dd"),
+    }));
+  };
+
+  const updateItem = (index: number, field: "amount" | "due_date", value: string) => {
+    const updated = [...plan];
+    updated[index] = {
+      ...updated[index],
+      [field]: field === "amount" ? parseFloat(value) || 0 : value,
+    };
+    onChange(updated);
+  };
+
+  const difference = (toCents(total) - getPlanTotalCents(plan)) / 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-base font-semibold">Plano de Pagamento</Label>
+        {plan.length > 0 && !locked && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange([])}>
+            <X className="h-4 w-4 mr-2" />
+            Remover plano
+          </Button>
+        )}
+      </div>
+
+      {!locked && (
+        <div className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-3">
+            <Label htmlFor="deposit_percent">Entrada (%)</Label>
+            <Input
+              id="deposit_percent"
+              type="number"
+              min="0"
+              max="100"
+              value={settings.deposit_percent}
+              onChange={(e) => setSettings({ ...settings, deposit_percent: e.target.value })}
+            />
+          </div>
+          <div className="col-span-3">
+            <Label htmlFor="installments">Parcelas</Label>
+            <Input
+              id="installments"
+              type="number"
+              min="0"
+              max="24"
+              value={settings.installments}
+              onChange={(e) => setSettings({ ...settings, installments: e.target.value })}
+            />
+          </div>
+          <div className="col-span-4">
+            <Label htmlFor="first_due_date">1º vencimento</Label>
+            <Input
+              id="first_due_date"
+              type="date"
+              value={settings.first_due_date}
+              onChange={(e) => setSettings({ ...settings, first_due_date: e.target.value })}
+            />
+          </div>
+          <div className="col-span-2">
+            <Button type="button" variant="outline" className="w-full" onClick={generatePlan} disabled={total <= 0}>
+              Gerar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {plan.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Sem plano, a receita total entra no caixa quando o agendamento é concluído.
+        </p>
+      )}
+
+      {plan.map((item, index) => {
+        const paid = item.paid_amount ?? 0;
+        const isPaid = paid > 0 && toCents(paid) >= toCents(item.amount);
+
+        return (
+          <div key={item.id ?? `${item.kind}-${item.installment_number}`} className="grid grid-cols-12 gap-2 items-center">
+            <div className="col-span-3 text-sm font-medium">{item.description}</div>
+            <div className="col-span-3">
+              <Input
+                type="date"
+                value={item.due_date}
+                onChange={(e) => updateItem(index, "due_date", e.target.value)}
+                disabled={locked}
+                required
+              />
+            </div>
+            <div className="col-span-3">
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={item.amount}
+                onChange={(e) => updateItem(index, "amount", e.target.value)}
+                disabled={locked}
+                required
+              />
+            </div>
+            <div className="col-span-3 flex justify-end space-x-1">
+              {!isPaid && item.amount > 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Cobrar via Pix"
+                  onClick={() => onCharge(item)}
+                >
+                  <QrCode className="h-4 w-4" />
+                </Button>
+              )}
+              {isPaid ? (
+                <Badge variant="secondary" className="text-success">
+                  <Check className="h-3 w-3 mr-1" />
+                  Paga
+                </Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!canPay || !item.id}
+                  title={canPay ? undefined : "Salve o agendamento antes de receber"}
+                  onClick={() => onPay(item)}
+                >
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  {paid > 0 ? `Receber ${formatCurrency(item.amount - paid)}` : "Receber"}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {plan.length > 0 && difference !== 0 && (
+        <p className="text-sm text-destructive">
+          A soma das parcelas difere do total dos serviços em {formatCurrency(difference)}
+        </p>
+      )}
+      {locked && (
+        <p className="text-sm text-muted-foreground">
+          O plano não pode ser alterado depois que uma parcela foi paga.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { buildPixPayloadFromSettings } from "@/lib/pix";
+import { Copy, MessageSquare } from "lucide-react";
+
+interface PixChargeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  amount: number;
+  reference?: string | null;
+  description: string;
+  clientName?: string;
+}
+
+export function PixChargeDialog({ open, onOpenChange, amount, reference, description, clientName }: PixChargeDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [payload, setPayload] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      generateCharge(amount, reference);
+    }
+  }, [open, amount, reference]);
+
+  const generateCharge = async (amount: number, reference?: string | null) => {
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("studio_settings")
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const pixPayload = buildPixPayloadFromSettings(data, amount, reference);
+      setPayload(pixPayload);
+      setQrCode(pixPayload ? await QRCode.toDataURL(pixPayload, { width: 240, margin: 1 }) : null);
+    } catch (error) {
+      console.error("Erro ao gerar cobrança Pix:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao gerar cobrança Pix",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const shareText = payload && [
+    `Olá${clientName ? `, ${clientName}` : ""}! Segue o Pix para pagamento de ${description}.`,
+    `Valor: ${formatCurrency(amount)}`,
+    "",
+    "Pix copia e cola:",
+    payload,
+  ].join("\n");
+
+  const copy = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copiado",
+        description: message,
+      });
+    } catch (error) {
+      console.error("Erro ao copiar:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Cobrança via Pix</DialogTitle>
+          <DialogDescription>
+            {description} · {formatCurrency(amount)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="h-60 bg-muted rounded animate-pulse"></div>
+        ) : payload ? (
+          <div className="space-y-4">
+            {qrCode && (
+              <img src={qrCode} alt="QR Code Pix" className="mx-auto h-60 w-60" />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="pix-payload">Pix copia e cola</Label>
+              <div className="flex space-x-2">
+                <Input id="pix-payload" value={payload} readOnly className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  title="Copiar código"
+                  onClick={() => copy(payload, "Código Pix copiado")}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">
+            Cadastre sua chave Pix em{" "}
+            <Link to="/configuracoes" className="text-primary hover:underline">Configurações</Link>{" "}
+            para gerar cobranças.
+          </p>
+        )}
+
+        {shareText && (
+          <DialogFooter>
+            <Button
+              type="button"
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+              onClick={() => copy(shareText, "Mensagem pronta para enviar ao cliente")}
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Copiar mensagem
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { QuoteStatus, getSubtotal, quoteStatusLabels } from "@/lib/quotes";
+import { X, Plus } from "lucide-react";
+import { format, addDays } from "date-fns";
+
+interface Client {
+  id: string;
+  name: string;
+  archived: boolean;
+}
+
+interface Service {
+  id: string;
+  name: string;
+  base_price: number;
+}
+
+export interface QuoteService {
+  service_id: string;
+  price: number;
+  quantity: number;
+  service?: Service;
+}
+
+export interface Quote {
+  id: string;
+  title: string;
+  description?: string;
+  client_id?: string;
+  status: QuoteStatus;
+  discount: number;
+  valid_until?: string;
+  appointment_id?: string;
+  created_at: string;
+  clients?: { name: string };
+  quote_services: QuoteService[];
+}
+
+interface QuoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quote?: Quote | null;
+  onSave: () => void;
+}
+
+const QUOTE_VALIDITY_DAYS = 15;
+
+const emptyForm = () => ({
+  title: "",
+  description: "",
+  client_id: "",
+  status: "draft" as QuoteStatus,
+  discount: "0",
+  valid_until: format(addDays(new Date(), QUOTE_VALIDITY_DAYS), "yyyy-MM-dd"),
+});
+
+export function QuoteDialog({ open, onOpenChange, quote, onSave }: QuoteDialogProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [quoteServices, setQuoteServices] = useState<QuoteService[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      fetchData();
+      if (quote) {
+        setFormData({
+          title: quote.title,
+          description: quote.description || "",
+          client_id: quote.client_id || "",
+          status: quote.status,
+          discount: quote.discount.toString(),
+          valid_until: quote.valid_until || "",
+        });
+        setQuoteServices(quote.quote_services);
+      } else {
+        setFormData(emptyForm());
+        setQuoteServices([]);
+      }
+    }
+  }, [open, quote]);
+
+  const fetchData = async () => {
+    try {
+      const [clientsRes, servicesRes] = await Promise.all([
+        supabase.from("clients").select("id, name, archived").order("name"),
+        supabase.from("services").select("id, name, base_price").order("name")
+      ]);
+
+      if (clientsRes.error) throw clientsRes.error;
+      if (servicesRes.error) throw servicesRes.error;
+
+      setClients(clientsRes.data || []);
+      setServices(servicesRes.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar dados:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar dados",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addService = () => {
+    setQuoteServices([...quoteServices, {
+      service_id: "",
+      price: 0,
+      quantity: 1
+    }]);
+  };
+
+  const removeService = (index: number) => {
+    setQuoteServices(quoteServices.filter((_, i) => i !== index));
+  };
+
+  const updateService = (index: number, field: "service_id" | "price" | "quantity", value: string | number) => {
+    const updated = [...quoteServices];
+    updated[index] = { ...updated[index], [field]: value };
+
+    // Se mudou o serviço, atualizar o preço base
+    if (field === "service_id") {
+      const service = services.find(s => s.id === value);
+      if (service) {
+        updated[index].price = service.base_price;
+        updated[index].service = service;
+      }
+    }
+
+    setQuoteServices(updated);
+  };
+
+  const subtotal = getSubtotal(quoteServices);
+  const discount = parseFloat(formData.discount) || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (discount > subtotal) {
+      toast({
+        title: "Erro",
+        description: "O desconto não pode ser maior que o subtotal",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const servicesData = quoteServices
+        .filter(service => service.service_id)
+        .map(service => ({
+          service_id: service.service_id,
+          price: service.price,
+          quantity: service.quantity,
+        }));
+
+      // Orçamento e itens são gravados em uma única transação
+      const { error } = await supabase.rpc("save_quote", {
+        p_quote: {
+          ...formData,
+          id: quote?.id ?? null,
+          discount,
+        },
+        p_services: servicesData,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: quote ? "Orçamento atualizado com sucesso" : "Orçamento criado com sucesso",
+      });
+
+      onOpenChange(false);
+      onSave();
+    } catch (error) {
+      console.error("Erro ao salvar orçamento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar orçamento",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {quote ? "Editar Orçamento" : "Novo Orçamento"}
+          </DialogTitle>
+          <DialogDescription>
+            {quote
+              ? "Atualize a proposta enviada ao cliente"
+              : "Monte uma proposta com os serviços e preços combinados"
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quote-title">Título *</Label>
+                <Input
+                  id="quote-title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  placeholder="Ex.: Casamento Ana e Pedro"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quote-client">Cliente</Label>
+                <Select
+                  value={formData.client_id}
+                  onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+                >
+                  <SelectTrigger id="quote-client">
+                    <SelectValue placeholder="Selecione um cliente" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients
+                      .filter(client => !client.archived || client.id === formData.client_id)
+                      .map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quote-valid-until">Válido até</Label>
+                <Input
+                  id="quote-valid-until"
+                  type="date"
+                  value={formData.valid_until}
+                  onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quote-status">Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData({ ...formData, status: value as QuoteStatus })}
+                >
+                  <SelectTrigger id="quote-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(quoteStatusLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quote-description">Descrição</Label>
+              <Textarea
+                id="quote-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Condições, entregáveis, observações..."
+              />
+            </div>
+
+            {/* Itens */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Serviços</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addService}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar Serviço
+                </Button>
+              </div>
+
+              {quoteServices.map((quoteService, index) => (
+                <Card key={index} className="p-4">
+                  <CardContent className="p-0">
+                    <div className="grid grid-cols-12 gap-2 items-end">
+                      <div className="col-span-5">
+                        <Label>Serviço</Label>
+                        <Select
+                          value={quoteService.service_id}
+                          onValueChange={(value) => updateService(index, "service_id", value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione um serviço" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {services.map((service) => (
+                              <SelectItem key={service.id} value={service.id}>
+                                {service.name} - {formatCurrency(service.base_price)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2">
+                        <Label>Qtd</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={quoteService.quantity}
+                          onChange={(e) => updateService(index, "quantity", parseInt(e.target.value) || 1)}
+                        />
+                      </div>
+                      <div className="col-span-3">
+                        <Label>Preço</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={quoteService.price}
+                          onChange={(e) => updateService(index, "price", parseFloat(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="col-span-1">
+                        <Label>Total</Label>
+                        <div className="text-sm font-medium p-2">
+                          {formatCurrency(quoteService.price * quoteService.quantity)}
+                        </div>
+                      </div>
+                      <div className="col-span-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeService(index)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="quote-discount">Desconto (R$)</Label>
+                  <Input
+                    id="quote-discount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.discount}
+                    onChange={(e) => setFormData({ ...formData, discount: e.target.value })}
+                  />
+                </div>
+                <div className="text-right space-y-1">
+                  <div className="text-sm text-muted-foreground">Subtotal: {formatCurrency(subtotal)}</div>
+                  <div className="text-lg font-bold">Total: {formatCurrency(Math.max(subtotal - discount, 0))}</div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : (quote ? "Atualizar" : "Criar Orçamento")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { RecurrenceFrequency, frequencyLabels } from "@/lib/recurrence";
+import { format } from "date-fns";
+
+export interface RecurringRule {
+  id: string;
+  type: "income" | "expense";
+  amount: number;
+  description: string;
+  category_id?: string;
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date?: string;
+  active: boolean;
+  categories?: { name: string; color: string };
+}
+
+interface Category {
+  id: string;
+  name: string;
+  type: "income" | "expense";
+  archived: boolean;
+}
+
+interface RecurringRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: RecurringRule | null;
+  categories: Category[];
+  onSave: () => void;
+}
+
+const emptyForm = () => ({
+  type: "expense" as "income" | "expense",
+  amount: "",
+  description: "",
+  category_id: "",
+  frequency: "monthly" as RecurrenceFrequency,
+  start_date: format(new Date(), "yyyy-MM-dd"),
+  end_date: "",
+});
+
+export function RecurringRuleDialog({ open, onOpenChange, rule, categories, onSave }: RecurringRuleDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (open) {
+      if (rule) {
+        setFormData({
+          type: rule.type,
+          amount: rule.amount.toString(),
+          description: rule.description,
+          category_id: rule.category_id || "",
+          frequency: rule.frequency,
+          start_date: rule.start_date,
+          end_date: rule.end_date || "",
+        });
+      } else {
+        setFormData(emptyForm());
+      }
+    }
+  }, [open, rule]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const ruleData = {
+        ...formData,
+        amount: parseFloat(formData.amount),
+        category_id: formData.category_id || null,
+        end_date: formData.end_date || null,
+      };
+
+      if (rule) {
+        const { error } = await supabase
+          .from("recurring_transactions")
+          .update(ruleData)
+          .eq("id", rule.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Recorrência atualizada com sucesso",
+        });
+      } else {
+        const { error } = await supabase
+          .from("recurring_transactions")
+          .insert([ruleData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Sucesso",
+          description: "Recorrência criada com sucesso",
+        });
+      }
+
+      onOpenChange(false);
+      onSave();
+    } catch (error) {
+      console.error("Erro ao salvar recorrência:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar recorrência",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const availableCategories = categories.filter(cat =>
+    cat.type === formData.type && (!cat.archived || cat.id === formData.category_id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? "Editar Recorrência" : "Nova Recorrência"}
+          </DialogTitle>
+          <DialogDescription>
+            {rule
+              ? "Alterações valem para as próximas ocorrências"
+              : "Cadastre um lançamento que se repete, como aluguel ou assinaturas"
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-type">Tipo *</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData({ ...formData, type: value as "income" | "expense", category_id: "" })}
+                >
+                  <SelectTrigger id="recurring-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="income">Receita</SelectItem>
+                    <SelectItem value="expense">Despesa</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-amount">Valor *</Label>
+                <Input
+                  id="recurring-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Descrição *</Label>
+              <Input
+                id="recurring-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Ex.: Adobe Creative Cloud"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-category">Categoria</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                >
+                  <SelectTrigger id="recurring-category">
+                    <SelectValue placeholder="Selecione uma categoria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-frequency">Frequência *</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(value) => setFormData({ ...formData, frequency: value as RecurrenceFrequency })}
+                >
+                  <SelectTrigger id="recurring-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(frequencyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-start">Início *</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-end">Término</Label>
+                <Input
+                  id="recurring-end"
+                  type="date"
+                  min={formData.start_date}
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : (rule ? "Atualizar" : "Criar Recorrência")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,370 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { RecurringRule, RecurringRuleDialog } from "@/components/RecurringRuleDialog";
+import { frequencyLabels, getOccurrences } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import { Plus, Edit, Trash2, Repeat, SkipForward, Undo2 } from "lucide-react";
+import { format, addDays, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Category {
+  id: string;
+  name: string;
+  type: "income" | "expense";
+  archived: boolean;
+}
+
+interface Override {
+  recurring_id: string;
+  occurrence_date: string;
+  skipped: boolean;
+  amount?: number;
+  description?: string;
+}
+
+interface Occurrence {
+  rule: RecurringRule;
+  date: string;
+  override?: Override;
+}
+
+interface RecurringTransactionsProps {
+  categories: Category[];
+  onChange: () => void;
+}
+
+const UPCOMING_DAYS = 60;
+
+export function RecurringTransactions({ categories, onChange }: RecurringTransactionsProps) {
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<Occurrence | null>(null);
+  const [occurrenceForm, setOccurrenceForm] = useState({ amount: "", description: "" });
+
+  const windowStart = format(addDays(new Date(), 1), "yyyy-MM-dd");
+  const windowEnd = format(addDays(new Date(), UPCOMING_DAYS), "yyyy-MM-dd");
+
+  useEffect(() => {
+    fetchRecurring();
+  }, []);
+
+  const fetchRecurring = async () => {
+    try {
+      const [rulesRes, overridesRes] = await Promise.all([
+        supabase
+          .from("recurring_transactions")
+          .select(`
+            *,
+            categories (name, color)
+          `)
+          .order("description"),
+        supabase
+          .from("recurring_transaction_overrides")
+          .select("*")
+          .gt("occurrence_date", format(new Date(), "yyyy-MM-dd")),
+      ]);
+
+      if (rulesRes.error) throw rulesRes.error;
+      if (overridesRes.error) throw overridesRes.error;
+
+      setRules(rulesRes.data as RecurringRule[] || []);
+      setOverrides(overridesRes.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar recorrências:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar recorrências",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const refresh = () => {
+    fetchRecurring();
+    onChange();
+  };
+
+  const upcoming: Occurrence[] = rules
+    .filter(rule => rule.active)
+    .flatMap(rule =>
+      getOccurrences(rule, windowStart, windowEnd).map(date => ({
+        rule,
+        date,
+        override: overrides.find(o => o.recurring_id === rule.id && o.occurrence_date === date),
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const saveOverride = async (occurrence: Occurrence, changes: Partial<Override>) => {
+    try {
+      const { error } = await supabase
+        .from("recurring_transaction_overrides")
+        .upsert({
+          recurring_id: occurrence.rule.id,
+          occurrence_date: occurrence.date,
+          skipped: occurrence.override?.skipped ?? false,
+          amount: occurrence.override?.amount ?? null,
+          description: occurrence.override?.description ?? null,
+          ...changes,
+        }, { onConflict: "recurring_id,occurrence_date" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Ocorrência atualizada",
+      });
+      setEditingOccurrence(null);
+      fetchRecurring();
+    } catch (error) {
+      console.error("Erro ao atualizar ocorrência:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar ocorrência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEditOccurrence = (occurrence: Occurrence) => {
+    setEditingOccurrence(occurrence);
+    setOccurrenceForm({
+      amount: (occurrence.override?.amount ?? occurrence.rule.amount).toString(),
+      description: occurrence.override?.description ?? occurrence.rule.description,
+    });
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (!confirm("Excluir esta recorrência? As transações já lançadas serão mantidas.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("recurring_transactions")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Recorrência excluída com sucesso",
+      });
+      refresh();
+    } catch (error) {
+      console.error("Erro ao excluir recorrência:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir recorrência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Repeat className="h-4 w-4 mr-2" />
+            Lançamentos Recorrentes
+          </CardTitle>
+          <CardDescription>
+            Lançados automaticamente na data de cada ocorrência
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setEditingRule(null);
+            setIsRuleDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Recorrência
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="upcoming">
+          <TabsList>
+            <TabsTrigger value="upcoming">Próximos {UPCOMING_DAYS} dias</TabsTrigger>
+            <TabsTrigger value="rules">Regras ({rules.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="upcoming" className="space-y-2">
+            {upcoming.length === 0 && (
+              <p className="text-sm text-muted-foreground py-4">Nenhum lançamento previsto.</p>
+            )}
+            {upcoming.map((occurrence) => {
+              const skipped = occurrence.override?.skipped ?? false;
+              return (
+                <div
+                  key={`${occurrence.rule.id}-${occurrence.date}`}
+                  className={cn("flex items-center justify-between rounded-md border p-3", skipped && "opacity-50")}
+                >
+                  <div>
+                    <div className={cn("font-medium", skipped && "line-through")}>
+                      {occurrence.override?.description ?? occurrence.rule.description}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDate(occurrence.date)} · {frequencyLabels[occurrence.rule.frequency]}
+                      {occurrence.override && !skipped && " · ajustada"}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`font-semibold ${occurrence.rule.type === "income" ? "text-success" : "text-destructive"}`}>
+                      {occurrence.rule.type === "income" ? "+" : "-"}
+                      {formatCurrency(occurrence.override?.amount ?? occurrence.rule.amount)}
+                    </span>
+                    <Button variant="ghost" size="icon" onClick={() => handleEditOccurrence(occurrence)} disabled={skipped}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={skipped ? "Restaurar ocorrência" : "Pular ocorrência"}
+                      onClick={() => saveOverride(occurrence, { skipped: !skipped })}
+                    >
+                      {skipped ? <Undo2 className="h-4 w-4" /> : <SkipForward className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </TabsContent>
+
+          <TabsContent value="rules" className="space-y-2">
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground py-4">Nenhuma recorrência cadastrada.</p>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{rule.description}</span>
+                    <Badge variant="secondary">{frequencyLabels[rule.frequency]}</Badge>
+                    {rule.categories && (
+                      <Badge
+                        variant="secondary"
+                        style={{ backgroundColor: rule.categories.color + "20", color: rule.categories.color }}
+                      >
+                        {rule.categories.name}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Desde {formatDate(rule.start_date)}
+                    {rule.end_date && ` até ${formatDate(rule.end_date)}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={`font-semibold ${rule.type === "income" ? "text-success" : "text-destructive"}`}>
+                    {rule.type === "income" ? "+" : "-"}{formatCurrency(rule.amount)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditingRule(rule);
+                      setIsRuleDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteRule(rule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <RecurringRuleDialog
+        open={isRuleDialogOpen}
+        onOpenChange={setIsRuleDialogOpen}
+        rule={editingRule}
+        categories={categories}
+        onSave={refresh}
+      />
+
+      <Dialog open={!!editingOccurrence} onOpenChange={(open) => !open && setEditingOccurrence(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Editar Ocorrência</DialogTitle>
+            <DialogDescription>
+              Altera apenas o lançamento de {editingOccurrence && formatDate(editingOccurrence.date)}, sem mudar a regra
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (editingOccurrence) {
+                saveOverride(editingOccurrence, {
+                  amount: parseFloat(occurrenceForm.amount),
+                  description: occurrenceForm.description,
+                });
+              }
+            }}
+          >
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="occurrence-description">Descrição *</Label>
+                <Input
+                  id="occurrence-description"
+                  value={occurrenceForm.description}
+                  onChange={(e) => setOccurrenceForm({ ...occurrenceForm, description: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="occurrence-amount">Valor *</Label>
+                <Input
+                  id="occurrence-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={occurrenceForm.amount}
+                  onChange={(e) => setOccurrenceForm({ ...occurrenceForm, amount: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="bg-gradient-primary hover:opacity-90 transition-opacity">
+                Salvar Ocorrência
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
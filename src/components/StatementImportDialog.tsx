@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  StatementLine,
+  decodeStatementFile,
+  findMatchingTransaction,
+  parseStatement,
+  suggestCategory,
+} from "@/lib/statementImport";
+import { TransactionType } from "@/lib/accounts";
+import { Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+interface BookTransaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  category_id?: string;
+  import_id?: string;
+  account_id?: string;
+}
+
+interface Account {
+  id: string;
+  name: string;
+  is_default: boolean;
+  archived: boolean;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  type: "income" | "expense";
+  archived: boolean;
+}
+
+interface ImportRow {
+  line: StatementLine;
+  selected: boolean;
+  category_id: string;
+  alreadyImported: boolean;
+  match?: BookTransaction;
+}
+
+interface StatementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: BookTransaction[];
+  categories: Category[];
+  accounts: Account[];
+  onImported: () => void;
+}
+
+export function StatementImportDialog({
+  open,
+  onOpenChange,
+  transactions,
+  categories,
+  accounts,
+  onImported,
+}: StatementImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFileName("");
+      setRows([]);
+      setAccountId("");
+    }
+    onOpenChange(value);
+  };
+
+  const getTargetAccountId = (targetAccountId: string) =>
+    targetAccountId || accounts.find(account => account.is_default)?.id;
+
+  // Linhas já importadas nesta conta ou que batem com um lançamento dela começam desmarcadas
+  const buildRows = (lines: StatementLine[], targetAccountId: string): ImportRow[] => {
+    const targetId = getTargetAccountId(targetAccountId);
+    const accountTransactions = targetId ? transactions.filter(t => t.account_id === targetId) : transactions;
+    const importedIds = new Set(accountTransactions.map(t => t.import_id).filter(Boolean));
+
+    return lines.map((line) => {
+      const alreadyImported = importedIds.has(line.import_id);
+      const match = alreadyImported ? undefined : findMatchingTransaction(line, accountTransactions);
+
+      return {
+        line,
+        selected: !alreadyImported && !match,
+        category_id: suggestCategory(line, transactions) ?? "",
+        alreadyImported,
+        match,
+      };
+    });
+  };
+
+  const handleAccountChange = (value: string) => {
+    setAccountId(value);
+    if (rows.length > 0) {
+      setRows(buildRows(rows.map(row => row.line), value));
+    }
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      const lines = parseStatement(file.name, decodeStatementFile(await file.arrayBuffer()));
+
+      if (lines.length === 0) {
+        toast({
+          title: "Erro",
+          description: "Nenhum lançamento encontrado no arquivo",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(buildRows(lines, accountId));
+    } catch (error) {
+      console.error("Erro ao ler extrato:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao ler o arquivo do extrato",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    const updated = [...rows];
+    updated[index] = { ...updated[index], ...changes };
+    setRows(updated);
+  };
+
+  const selectedRows = rows.filter(row => row.selected && !row.alreadyImported);
+
+  const handleImport = async () => {
+    setImporting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("transactions")
+        .upsert(selectedRows.map(row => ({
+          type: row.line.amount >= 0 ? "income" : "expense",
+          amount: Math.abs(row.line.amount),
+          description: row.line.description,
+          transaction_date: row.line.date,
+          category_id: row.category_id || null,
+          import_id: row.line.import_id,
+          account_id: getTargetAccountId(accountId) ?? null,
+        })), { onConflict: "owner_id,account_id,import_id", ignoreDuplicates: true })
+        .select("id");
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: `${data?.length ?? 0} ${data?.length === 1 ? "lançamento importado" : "lançamentos importados"}`,
+      });
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error("Erro ao importar extrato:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao importar extrato",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Importar Extrato</DialogTitle>
+          <DialogDescription>
+            Envie o arquivo OFX ou CSV exportado pelo banco e revise os lançamentos antes de importar
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement_account">Conta</Label>
+            <Select value={accountId} onValueChange={handleAccountChange}>
+              <SelectTrigger id="statement_account">
+                <SelectValue placeholder="Conta padrão" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.filter(account => !account.archived).map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement_file">Arquivo do extrato</Label>
+            <Input
+              id="statement_file"
+              type="file"
+              accept=".ofx,.csv,.txt"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={rows.every(row => row.selected || row.alreadyImported)}
+                      onCheckedChange={(checked) => setRows(rows.map(row => ({ ...row, selected: !row.alreadyImported && checked === true })))}
+                    />
+                  </TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const type = row.line.amount >= 0 ? "income" : "expense";
+
+                  return (
+                    <TableRow key={row.line.import_id} className={row.alreadyImported ? "opacity-50" : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.selected}
+                          disabled={row.alreadyImported}
+                          onCheckedChange={(checked) => updateRow(index, { selected: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(row.line.date), "dd/MM/yyyy")}
+                      </TableCell>
+                      <TableCell>{row.line.description}</TableCell>
+                      <TableCell className={`text-right whitespace-nowrap font-medium ${type === "income" ? "text-success" : "text-destructive"}`}>
+                        {formatCurrency(row.line.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={row.category_id}
+                          onValueChange={(value) => updateRow(index, { category_id: value })}
+                          disabled={row.alreadyImported}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue placeholder="Sem categoria" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories
+                              .filter(category => category.type === type && (!category.archived || category.id === row.category_id))
+                              .map((category) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {category.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {row.alreadyImported ? (
+                          <Badge variant="secondary">Já importada</Badge>
+                        ) : row.match ? (
+                          <Badge variant="outline" className="text-warning border-warning" title={row.match.description}>
+                            Já lançada em {format(parseISO(row.match.transaction_date), "dd/MM")}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Nova</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {fileName && (
+            <p className="text-sm text-muted-foreground mr-auto self-center">
+              {fileName} · {rows.length} {rows.length === 1 ? "linha" : "linhas"}
+            </p>
+          )}
+          <Button
+            className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            disabled={selectedRows.length === 0 || importing}
+            onClick={handleImport}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Importar {selectedRows.length} {selectedRows.length === 1 ? "lançamento" : "lançamentos"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface Account {
+  id: string;
+  name: string;
+  archived: boolean;
+}
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  onSave: () => void;
+}
+
+const emptyForm = () => ({
+  from_account_id: "",
+  to_account_id: "",
+  amount: "",
+  transfer_date: format(new Date(), "yyyy-MM-dd"),
+  description: "",
+});
+
+export function TransferDialog({ open, onOpenChange, accounts, onSave }: TransferDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm());
+    }
+  }, [open]);
+
+  const activeAccounts = accounts.filter(account => !account.archived);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("create_transfer", {
+        p_from_account_id: formData.from_account_id,
+        p_to_account_id: formData.to_account_id,
+        p_amount: parseFloat(formData.amount),
+        p_transfer_date: formData.transfer_date,
+        p_description: formData.description || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Transferência registrada com sucesso",
+      });
+      onOpenChange(false);
+      onSave();
+    } catch (error) {
+      console.error("Erro ao registrar transferência:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao registrar transferência",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Nova Transferência</DialogTitle>
+          <DialogDescription>
+            Mova dinheiro entre contas sem contar como receita ou despesa
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transfer_from">De *</Label>
+                <Select
+                  value={formData.from_account_id}
+                  onValueChange={(value) => setFormData({ ...formData, from_account_id: value })}
+                >
+                  <SelectTrigger id="transfer_from">
+                    <SelectValue placeholder="Conta de origem" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer_to">Para *</Label>
+                <Select
+                  value={formData.to_account_id}
+                  onValueChange={(value) => setFormData({ ...formData, to_account_id: value })}
+                >
+                  <SelectTrigger id="transfer_to">
+                    <SelectValue placeholder="Conta de destino" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts
+                      .filter(account => account.id !== formData.from_account_id)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transfer_amount">Valor *</Label>
+                <Input
+                  id="transfer_amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer_date">Data *</Label>
+                <Input
+                  id="transfer_date"
+                  type="date"
+                  value={formData.transfer_date}
+                  onChange={(e) => setFormData({ ...formData, transfer_date: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer_description">Descrição</Label>
+              <Input
+                id="transfer_description"
+                placeholder="Ex.: Pagamento da fatura do cartão"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={loading || !formData.from_account_id || !formData.to_account_id}
+              className="bg-gradient-primary hover:opacity-90 transition-opacity"
+            >
+              {loading ? "Salvando..." : "Transferir"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
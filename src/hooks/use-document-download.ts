@@ -0,0 +1,101 @@
+import { useState } from "react";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  DocumentItem,
+  DocumentKind,
+  IssuedDocument,
+  StudioProfile,
+  buildDocumentPdf,
+  getDocumentFileName,
+} from "@/lib/documentPdf";
+import { buildPixPayloadFromSettings } from "@/lib/pix";
+
+interface DocumentSource {
+  transactionId?: string;
+  appointmentId?: string;
+}
+
+interface StoredDocument extends Omit<IssuedDocument, "kind" | "items"> {
+  id: string;
+  kind: string;
+  appointment_id: string | null;
+  transaction_id: string | null;
+  items: unknown;
+  studio: unknown;
+}
+
+interface StudioSnapshot extends StudioProfile {
+  pix_key?: string | null;
+  pix_merchant_name?: string | null;
+  pix_merchant_city?: string | null;
+}
+
+export function useDocumentDownload() {
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Cabeçalho e chave Pix gravados na emissão: a segunda via não muda com as configurações
+  const saveDocument = async (document: StoredDocument) => {
+    const studio = (document.studio || {}) as StudioSnapshot;
+
+    // Faturas e recibos levam o Pix do valor total, referenciando o agendamento (ou a receita)
+    const payload = buildPixPayloadFromSettings(
+      studio,
+      document.total,
+      document.appointment_id ?? document.transaction_id,
+    );
+    const pix = payload ? { payload, qrCode: await QRCode.toDataURL(payload, { margin: 1 }) } : null;
+
+    buildDocumentPdf(
+      { ...document, kind: document.kind as DocumentKind, items: document.items as DocumentItem[] },
+      studio,
+      pix,
+    ).save(getDocumentFileName({ kind: document.kind as DocumentKind, number: document.number }));
+  };
+
+  /** Emite o documento na primeira vez; nas seguintes, baixa a segunda via com o mesmo número. */
+  const issueDocument = async ({ transactionId, appointmentId }: DocumentSource) => {
+    const sourceId = transactionId ?? appointmentId ?? null;
+    setDownloadingId(sourceId);
+
+    try {
+      const { data, error } = await supabase.rpc("issue_document", {
+        p_transaction_id: transactionId,
+        p_appointment_id: appointmentId,
+      });
+
+      if (error) throw error;
+
+      await saveDocument(data);
+    } catch (error) {
+      console.error("Erro ao emitir documento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao gerar documento",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const downloadDocument = async (document: StoredDocument) => {
+    setDownloadingId(document.id);
+
+    try {
+      await saveDocument(document);
+    } catch (error) {
+      console.error("Erro ao gerar documento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao gerar documento",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return { issueDocument, downloadDocument, downloadingId };
+}
@@ -14,11 +14,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          archived: boolean
+          closing_day: number | null
+          created_at: string
+          due_day: number | null
+          id: string
+          is_default: boolean
+          kind: string
+          name: string
+          opening_balance: number
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          archived?: boolean
+          closing_day?: number | null
+          created_at?: string
+          due_day?: number | null
+          id?: string
+          is_default?: boolean
+          kind?: string
+          name: string
+          opening_balance?: number
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          archived?: boolean
+          closing_day?: number | null
+          created_at?: string
+          due_day?: number | null
+          id?: string
+          is_default?: boolean
+          kind?: string
+          name?: string
+          opening_balance?: number
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       appointment_services: {
         Row: {
           appointment_id: string | null
           created_at: string
           id: string
+          owner_id: string | null
           price: number | null
           quantity: number | null
           service_id: string | null
@@ -27,6 +70,7 @@ export type Database = {
           appointment_id?: string | null
           created_at?: string
           id?: string
+          owner_id?: string | null
           price?: number | null
           quantity?: number | null
           service_id?: string | null
@@ -35,6 +79,7 @@ export type Database = {
           appointment_id?: string | null
           created_at?: string
           id?: string
+          owner_id?: string | null
           price?: number | null
           quantity?: number | null
           service_id?: string | null
@@ -58,36 +103,42 @@ export type Database = {
       }
       appointments: {
         Row: {
+          allow_overlap: boolean
           client_id: string | null
           created_at: string
           description: string | null
           end_date: string
           id: string
           location: string | null
+          owner_id: string | null
           start_date: string
           status: string
           title: string
           updated_at: string
         }
         Insert: {
+          allow_overlap?: boolean
           client_id?: string | null
           created_at?: string
           description?: string | null
           end_date: string
           id?: string
           location?: string | null
+          owner_id?: string | null
           start_date: string
           status?: string
           title: string
           updated_at?: string
         }
         Update: {
+          allow_overlap?: boolean
           client_id?: string | null
           created_at?: string
           description?: string | null
           end_date?: string
           id?: string
           location?: string | null
+          owner_id?: string | null
           start_date?: string
           status?: string
           title?: string
@@ -105,67 +156,505 @@ export type Database = {
       }
       categories: {
         Row: {
+          archived: boolean
           color: string | null
           created_at: string
           description: string | null
           id: string
           name: string
+          owner_id: string | null
           type: string
           updated_at: string
         }
         Insert: {
+          archived?: boolean
           color?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          owner_id?: string | null
           type: string
           updated_at?: string
         }
         Update: {
+          archived?: boolean
           color?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          owner_id?: string | null
           type?: string
           updated_at?: string
         }
         Relationships: []
       }
+      category_budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          month: string
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          month: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_notes: {
+        Row: {
+          body: string
+          client_id: string
+          created_at: string
+          id: string
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          client_id: string
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_notes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           address: string | null
+          archived: boolean
           created_at: string
           email: string | null
           id: string
+          lead_source: string | null
           name: string
-          notes: string | null
+          owner_id: string | null
           phone: string | null
+          tags: string[]
           updated_at: string
         }
         Insert: {
           address?: string | null
+          archived?: boolean
           created_at?: string
           email?: string | null
           id?: string
+          lead_source?: string | null
           name: string
-          notes?: string | null
+          owner_id?: string | null
           phone?: string | null
+          tags?: string[]
           updated_at?: string
         }
         Update: {
           address?: string | null
+          archived?: boolean
           created_at?: string
           email?: string | null
           id?: string
+          lead_source?: string | null
           name?: string
-          notes?: string | null
+          owner_id?: string | null
           phone?: string | null
+          tags?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_counters: {
+        Row: {
+          created_at: string
+          kind: string
+          last_number: number
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          kind: string
+          last_number?: number
+          owner_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          kind?: string
+          last_number?: number
+          owner_id?: string
           updated_at?: string
         }
         Relationships: []
       }
+      documents: {
+        Row: {
+          appointment_id: string | null
+          client_id: string | null
+          client_name: string | null
+          created_at: string
+          description: string
+          id: string
+          issue_date: string
+          items: Json
+          kind: string
+          number: number
+          owner_id: string | null
+          studio: Json
+          total: number
+          transaction_id: string | null
+        }
+        Insert: {
+          appointment_id?: string | null
+          client_id?: string | null
+          client_name?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          issue_date?: string
+          items?: Json
+          kind: string
+          number: number
+          owner_id?: string | null
+          studio?: Json
+          total: number
+          transaction_id?: string | null
+        }
+        Update: {
+          appointment_id?: string | null
+          client_id?: string | null
+          client_name?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          issue_date?: string
+          items?: Json
+          kind?: string
+          number?: number
+          owner_id?: string | null
+          studio?: Json
+          total?: number
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_services: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string | null
+          price: number | null
+          quantity: number | null
+          quote_id: string
+          service_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          price?: number | null
+          quantity?: number | null
+          quote_id: string
+          service_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          price?: number | null
+          quantity?: number | null
+          quote_id?: string
+          service_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_services_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_services_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          appointment_id: string | null
+          client_id: string | null
+          created_at: string
+          description: string | null
+          discount: number
+          id: string
+          owner_id: string | null
+          status: string
+          title: string
+          updated_at: string
+          valid_until: string | null
+        }
+        Insert: {
+          appointment_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          description?: string | null
+          discount?: number
+          id?: string
+          owner_id?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          valid_until?: string | null
+        }
+        Update: {
+          appointment_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          description?: string | null
+          discount?: number
+          id?: string
+          owner_id?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receivables: {
+        Row: {
+          amount: number
+          appointment_id: string | null
+          client_id: string | null
+          created_at: string
+          description: string
+          due_date: string
+          id: string
+          installment_number: number
+          kind: string
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          appointment_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          description: string
+          due_date: string
+          id?: string
+          installment_number?: number
+          kind?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          appointment_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          description?: string
+          due_date?: string
+          id?: string
+          installment_number?: number
+          kind?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receivables_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receivables_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transaction_overrides: {
+        Row: {
+          amount: number | null
+          created_at: string
+          description: string | null
+          id: string
+          occurrence_date: string
+          owner_id: string | null
+          recurring_id: string
+          skipped: boolean
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          occurrence_date: string
+          owner_id?: string | null
+          recurring_id: string
+          skipped?: boolean
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          occurrence_date?: string
+          owner_id?: string | null
+          recurring_id?: string
+          skipped?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transaction_overrides_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          active: boolean
+          amount: number
+          category_id: string | null
+          created_at: string
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          owner_id: string | null
+          start_date: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          description: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          owner_id?: string | null
+          start_date?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          owner_id?: string | null
+          start_date?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       services: {
         Row: {
           base_price: number | null
@@ -174,6 +663,7 @@ export type Database = {
           duration_hours: number | null
           id: string
           name: string
+          owner_id: string | null
           updated_at: string
         }
         Insert: {
@@ -183,6 +673,7 @@ export type Database = {
           duration_hours?: number | null
           id?: string
           name: string
+          owner_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -192,45 +683,192 @@ export type Database = {
           duration_hours?: number | null
           id?: string
           name?: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      statement_lines: {
+        Row: {
+          account_id: string | null
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          import_id: string
+          line_date: string
+          owner_id: string | null
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          created_at?: string
+          description: string
+          id?: string
+          import_id: string
+          line_date: string
+          owner_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          import_id?: string
+          line_date?: string
+          owner_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statement_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statement_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      studio_settings: {
+        Row: {
+          address: string | null
+          created_at: string
+          document: string | null
+          email: string | null
+          id: string
+          owner_id: string | null
+          phone: string | null
+          pix_key: string | null
+          pix_merchant_city: string | null
+          pix_merchant_name: string | null
+          studio_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          document?: string | null
+          email?: string | null
+          id?: string
+          owner_id?: string | null
+          phone?: string | null
+          pix_key?: string | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          studio_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          document?: string | null
+          email?: string | null
+          id?: string
+          owner_id?: string | null
+          phone?: string | null
+          pix_key?: string | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          studio_name?: string | null
           updated_at?: string
         }
         Relationships: []
       }
       transactions: {
         Row: {
+          account_id: string | null
           amount: number
+          appointment_id: string | null
           category_id: string | null
           client_id: string | null
           created_at: string
           description: string
           id: string
+          import_id: string | null
+          invoice_due_date: string | null
+          occurrence_date: string | null
+          owner_id: string | null
+          receivable_id: string | null
+          reconciled: boolean
+          reconciled_at: string | null
+          recurring_id: string | null
           transaction_date: string
+          transfer_id: string | null
           type: string
           updated_at: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
+          appointment_id?: string | null
           category_id?: string | null
           client_id?: string | null
           created_at?: string
           description: string
           id?: string
+          import_id?: string | null
+          invoice_due_date?: string | null
+          occurrence_date?: string | null
+          owner_id?: string | null
+          receivable_id?: string | null
+          reconciled?: boolean
+          reconciled_at?: string | null
+          recurring_id?: string | null
           transaction_date?: string
+          transfer_id?: string | null
           type: string
           updated_at?: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
+          appointment_id?: string | null
           category_id?: string | null
           client_id?: string | null
           created_at?: string
           description?: string
           id?: string
+          import_id?: string | null
+          invoice_due_date?: string | null
+          occurrence_date?: string | null
+          owner_id?: string | null
+          receivable_id?: string | null
+          reconciled?: boolean
+          reconciled_at?: string | null
+          recurring_id?: string | null
           transaction_date?: string
+          transfer_id?: string | null
           type?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_category_id_fkey"
             columns: ["category_id"]
@@ -245,6 +883,20 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_receivable_id_fkey"
+            columns: ["receivable_id"]
+            isOneToOne: false
+            referencedRelation: "receivables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -252,7 +904,215 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      card_invoice_due_date: {
+        Args: {
+          p_closing_day: number
+          p_due_day: number
+          p_purchase_date: string
+        }
+        Returns: string
+      }
+      create_transfer: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_from_account_id: string
+          p_to_account_id: string
+          p_transfer_date?: string
+        }
+        Returns: string
+      }
+      delete_category: {
+        Args: {
+          p_category_id: string
+          p_reassign_to?: string
+        }
+        Returns: undefined
+      }
+      delete_client: {
+        Args: {
+          p_client_id: string
+          p_detach?: boolean
+          p_reassign_to?: string
+        }
+        Returns: undefined
+      }
+      find_appointment_conflicts: {
+        Args: {
+          p_end_date: string
+          p_exclude_id?: string
+          p_start_date: string
+        }
+        Returns: {
+          allow_overlap: boolean
+          client_id: string | null
+          created_at: string
+          description: string | null
+          end_date: string
+          id: string
+          location: string | null
+          owner_id: string | null
+          start_date: string
+          status: string
+          title: string
+          updated_at: string
+        }[]
+      }
+      generate_recurring_transactions: {
+        Args: {
+          p_until?: string
+        }
+        Returns: number
+      }
+      issue_document: {
+        Args: {
+          p_appointment_id?: string
+          p_transaction_id?: string
+        }
+        Returns: {
+          appointment_id: string | null
+          client_id: string | null
+          client_name: string | null
+          created_at: string
+          description: string
+          id: string
+          issue_date: string
+          items: Json
+          kind: string
+          number: number
+          owner_id: string | null
+          studio: Json
+          total: number
+          transaction_id: string | null
+        }
+      }
+      merge_clients: {
+        Args: {
+          p_address?: string
+          p_email?: string
+          p_keep_id: string
+          p_merge_id: string
+          p_name: string
+          p_phone?: string
+        }
+        Returns: undefined
+      }
+      pay_card_invoice: {
+        Args: {
+          p_amount?: number
+          p_card_account_id: string
+          p_from_account_id: string
+          p_invoice_due_date: string
+          p_paid_at?: string
+        }
+        Returns: string
+      }
+      pay_receivable: {
+        Args: {
+          p_amount?: number
+          p_paid_at?: string
+          p_receivable_id: string
+        }
+        Returns: {
+          account_id: string | null
+          amount: number
+          appointment_id: string | null
+          category_id: string | null
+          client_id: string | null
+          created_at: string
+          description: string
+          id: string
+          import_id: string | null
+          invoice_due_date: string | null
+          occurrence_date: string | null
+          owner_id: string | null
+          receivable_id: string | null
+          reconciled: boolean
+          reconciled_at: string | null
+          recurring_id: string | null
+          transaction_date: string
+          transfer_id: string | null
+          type: string
+          updated_at: string
+        }
+      }
+      reconcile_statement_line: {
+        Args: {
+          p_category_id?: string
+          p_statement_line_id: string
+          p_transaction_id?: string
+        }
+        Returns: {
+          account_id: string | null
+          amount: number
+          appointment_id: string | null
+          category_id: string | null
+          client_id: string | null
+          created_at: string
+          description: string
+          id: string
+          import_id: string | null
+          invoice_due_date: string | null
+          occurrence_date: string | null
+          owner_id: string | null
+          receivable_id: string | null
+          reconciled: boolean
+          reconciled_at: string | null
+          recurring_id: string | null
+          transaction_date: string
+          transfer_id: string | null
+          type: string
+          updated_at: string
+        }
+      }
+      save_appointment: {
+        Args: {
+          p_appointment: Json
+          p_payment_plan?: Json
+          p_register_income?: boolean
+          p_reverse_income?: boolean
+          p_services?: Json
+        }
+        Returns: {
+          allow_overlap: boolean
+          client_id: string | null
+          created_at: string
+          description: string | null
+          end_date: string
+          id: string
+          location: string | null
+          owner_id: string | null
+          start_date: string
+          status: string
+          title: string
+          updated_at: string
+        }
+      }
+      save_quote: {
+        Args: {
+          p_quote: Json
+          p_services?: Json
+        }
+        Returns: {
+          appointment_id: string | null
+          client_id: string | null
+          created_at: string
+          description: string | null
+          discount: number
+          id: string
+          owner_id: string | null
+          status: string
+          title: string
+          updated_at: string
+          valid_until: string | null
+        }
+      }
+      unreconcile_statement_line: {
+        Args: {
+          p_statement_line_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,34 @@
+import { toCents } from "@/lib/paymentPlan";
+
+export type AccountKind = "checking" | "cash" | "card";
+
+export const accountKindLabels: Record<AccountKind, string> = {
+  checking: "Conta corrente",
+  cash: "Dinheiro",
+  card: "Cartão de crédito",
+};
+
+/** Transferências entre contas são gravadas como um par de lançamentos transfer_out/transfer_in. */
+export type TransactionType = "income" | "expense" | "transfer_in" | "transfer_out";
+
+export const isTransfer = (type: TransactionType) => type === "transfer_in" || type === "transfer_out";
+
+export const isInflow = (type: TransactionType) => type === "income" || type === "transfer_in";
+
+interface AccountEntry {
+  type: TransactionType;
+  amount: number;
+  account_id?: string | null;
+}
+
+/** Saldo inicial da conta somado às entradas e subtraído das saídas, incluindo transferências. */
+export function getAccountBalance(
+  account: { id: string; opening_balance: number },
+  transactions: AccountEntry[],
+): number {
+  const cents = transactions
+    .filter(t => t.account_id === account.id)
+    .reduce((sum, t) => sum + (isInflow(t.type) ? 1 : -1) * toCents(Number(t.amount)), toCents(Number(account.opening_balance)));
+
+  return cents / 100;
+}
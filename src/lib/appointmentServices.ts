@@ -0,0 +1,14 @@
+import { toCents } from "@/lib/paymentPlan";
+
+interface ServiceLine {
+  price: number | null;
+  quantity: number | null;
+}
+
+/** Valor de uma linha de serviço; sem quantidade gravada, conta como uma unidade. */
+export const getServiceLineTotal = (service: ServiceLine) =>
+  toCents(Number(service.price ?? 0) * (service.quantity ?? 1)) / 100;
+
+/** Soma dos serviços de um agendamento, somada em centavos. */
+export const getServicesTotal = (services: ServiceLine[] = []) =>
+  services.reduce((sum, service) => sum + toCents(getServiceLineTotal(service)), 0) / 100;
@@ -0,0 +1,95 @@
+import { format, startOfMonth } from "date-fns";
+import { toCents } from "@/lib/paymentPlan";
+
+export type BudgetLevel = "ok" | "warning" | "exceeded";
+
+const levelOrder: BudgetLevel[] = ["ok", "warning", "exceeded"];
+
+/** Percentuais em que o orçamento passa a merecer aviso. */
+export const BUDGET_WARNING_PERCENT = 80;
+export const BUDGET_EXCEEDED_PERCENT = 100;
+
+interface BudgetLike {
+  category_id: string;
+  month: string;
+  amount: number;
+}
+
+interface ExpenseLike {
+  type: string;
+  amount: number;
+  category_id?: string | null;
+  transaction_date: string;
+}
+
+export interface BudgetProgress<C extends { id: string }> {
+  category: C;
+  budget: number;
+  spent: number;
+  percent: number;
+  level: BudgetLevel;
+}
+
+/** Primeiro dia do mês, no formato gravado em category_budgets.month. */
+export const toBudgetMonth = (date: Date | string) =>
+  typeof date === "string" ? `${date.slice(0, 7)}-01` : format(startOfMonth(date), "yyyy-MM-dd");
+
+/** Orçamento vigente no mês: o definido mais recentemente até ele. Zero ou nenhum significa sem orçamento. */
+export function getBudgetAmount(budgets: BudgetLike[], categoryId: string, month: string): number | null {
+  const current = budgets
+    .filter(budget => budget.category_id === categoryId && budget.month <= month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+
+  return current && Number(current.amount) > 0 ? Number(current.amount) : null;
+}
+
+export function getCategorySpent(transactions: ExpenseLike[], categoryId: string, month: string): number {
+  const prefix = month.slice(0, 7);
+  return transactions
+    .filter(t => t.type === "expense" && t.category_id === categoryId && t.transaction_date.startsWith(prefix))
+    .reduce((sum, t) => sum + toCents(Number(t.amount)), 0) / 100;
+}
+
+const getBudgetPercent = (spent: number, budget: number) => (spent / budget) * 100;
+
+export function getBudgetLevel(spent: number, budget: number): BudgetLevel {
+  const percent = getBudgetPercent(spent, budget);
+  if (percent >= BUDGET_EXCEEDED_PERCENT) return "exceeded";
+  if (percent >= BUDGET_WARNING_PERCENT) return "warning";
+  return "ok";
+}
+
+/** Gasto x orçamento de cada categoria com orçamento no mês, das mais estouradas para as mais folgadas. */
+export function getBudgetProgress<C extends { id: string }>(
+  categories: C[],
+  budgets: BudgetLike[],
+  transactions: ExpenseLike[],
+  month: string,
+): BudgetProgress<C>[] {
+  return categories
+    .map((category) => {
+      const budget = getBudgetAmount(budgets, category.id, month);
+      if (budget === null) return null;
+
+      const spent = getCategorySpent(transactions, category.id, month);
+      return {
+        category,
+        budget,
+        spent,
+        percent: getBudgetPercent(spent, budget),
+        level: getBudgetLevel(spent, budget),
+      };
+    })
+    .filter((progress): progress is BudgetProgress<C> => progress !== null)
+    .sort((a, b) => b.percent - a.percent);
+}
+
+/**
+ * Nível atingido por uma despesa que acabou de ser lançada, se ela fez a categoria
+ * cruzar 80% ou 100% do orçamento. Quem já estava acima não é avisado de novo.
+ */
+export function getCrossedBudgetLevel(spentBefore: number, spentAfter: number, budget: number): BudgetLevel | null {
+  const before = getBudgetLevel(spentBefore, budget);
+  const after = getBudgetLevel(spentAfter, budget);
+  return levelOrder.indexOf(after) > levelOrder.indexOf(before) ? after : null;
+}
@@ -0,0 +1,79 @@
+import { format, getDaysInMonth, parseISO, subMonths } from "date-fns";
+import { toCents } from "@/lib/paymentPlan";
+import { TransactionType } from "@/lib/accounts";
+
+export type InvoiceStatus = "open" | "closed" | "paid" | "overdue";
+
+export const invoiceStatusLabels: Record<InvoiceStatus, string> = {
+  open: "Aberta",
+  closed: "Fechada",
+  paid: "Paga",
+  overdue: "Vencida",
+};
+
+interface CardEntry {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  account_id?: string | null;
+  invoice_due_date?: string | null;
+}
+
+export interface CardInvoice<T extends CardEntry = CardEntry> {
+  dueDate: string;
+  closingDate: string;
+  charges: T[];
+  payments: T[];
+  total: number;
+  paid: number;
+  balance: number;
+  status: InvoiceStatus;
+}
+
+const clampDay = (month: Date, day: number) =>
+  format(new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month))), "yyyy-MM-dd");
+
+/** Fechamento da fatura que vence em dueDate; mesma regra de card_invoice_due_date no banco. */
+export function getInvoiceClosingDate(dueDate: string, closingDay: number, dueDay: number): string {
+  const due = parseISO(dueDate);
+  return clampDay(dueDay > closingDay ? due : subMonths(due, 1), closingDay);
+}
+
+/** Agrupa compras e pagamentos do cartão por fatura, da mais recente para a mais antiga. */
+export function getCardInvoices<T extends CardEntry>(
+  card: { id: string; closing_day: number | null; due_day: number | null },
+  transactions: T[],
+  today: string = format(new Date(), "yyyy-MM-dd"),
+): CardInvoice<T>[] {
+  const entries = transactions.filter(t => t.account_id === card.id && t.invoice_due_date);
+  const dueDates = [...new Set(entries.map(t => t.invoice_due_date as string))].sort().reverse();
+
+  return dueDates.map((dueDate) => {
+    const invoiceEntries = entries.filter(t => t.invoice_due_date === dueDate);
+    const charges = invoiceEntries.filter(t => t.type === "income" || t.type === "expense");
+    const payments = invoiceEntries.filter(t => t.type === "transfer_in");
+
+    // Estornos (receitas no cartão) abatem a fatura
+    const totalCents = charges.reduce((sum, t) => sum + (t.type === "expense" ? 1 : -1) * toCents(Number(t.amount)), 0);
+    const paidCents = payments.reduce((sum, t) => sum + toCents(Number(t.amount)), 0);
+    const closingDate = getInvoiceClosingDate(dueDate, card.closing_day ?? 1, card.due_day ?? 10);
+
+    let status: InvoiceStatus = "open";
+    if (paidCents >= totalCents && (paidCents > 0 || today >= closingDate)) status = "paid";
+    else if (today > dueDate) status = "overdue";
+    else if (today >= closingDate) status = "closed";
+
+    return {
+      dueDate,
+      closingDate,
+      charges,
+      payments,
+      total: totalCents / 100,
+      paid: paidCents / 100,
+      balance: (totalCents - paidCents) / 100,
+      status,
+    };
+  });
+}
@@ -0,0 +1,130 @@
+interface ClientLike {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface DuplicateCandidate<T extends ClientLike> {
+  a: T;
+  b: T;
+  score: number;
+  reasons: string[];
+}
+
+/** Pontuação mínima para sugerir que dois cadastros são a mesma pessoa. */
+export const DUPLICATE_THRESHOLD = 40;
+
+const EMAIL_WEIGHT = 45;
+const PHONE_WEIGHT = 45;
+const NAME_WEIGHT = 40;
+
+export const normalizeEmail = (email?: string | null) => (email ?? "").trim().toLowerCase();
+
+/**
+ * Só os dígitos, sem o DDI 55 e sem o zero de operadora. Os 8 últimos dígitos
+ * identificam a linha mesmo quando um cadastro tem o nono dígito e o outro não.
+ */
+export function normalizePhone(phone?: string | null): string {
+  let digits = (phone ?? "").replace(/\D/g, "");
+  if (digits.length >= 12 && digits.startsWith("55")) digits = digits.slice(2);
+  return digits.replace(/^0+/, "");
+}
+
+/**
+ * Compara telefones já normalizados por normalizePhone. Quando os dois têm DDD
+ * (10 ou 11 dígitos), ele precisa ser o mesmo; sem DDD, valem os 8 últimos dígitos.
+ */
+export function phonesMatch(a: string, b: string): boolean {
+  if (a.length < 8 || b.length < 8) return false;
+  if (a === b) return true;
+  if (a.length >= 10 && b.length >= 10 && a.slice(0, 2) !== b.slice(0, 2)) return false;
+  return a.slice(-8) === b.slice(-8);
+}
+
+// Conectivos que não distinguem uma pessoa de outra ("Maria da Silva" x "Maria Silva")
+const NAME_CONNECTIVES = new Set(["da", "das", "de", "do", "dos", "e"]);
+
+/** Palavras do nome sem acentos, caixa, pontuação e conectivos. */
+const normalizeName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !NAME_CONNECTIVES.has(token));
+
+interface NormalizedClient {
+  email: string;
+  phone: string;
+  tokens: Set<string>;
+}
+
+const normalizeClient = (client: ClientLike): NormalizedClient => ({
+  email: normalizeEmail(client.email),
+  phone: normalizePhone(client.phone),
+  tokens: new Set(normalizeName(client.name)),
+});
+
+const tokenSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+};
+
+/** Coeficiente de Dice entre as palavras dos nomes, normalizadas por normalizeName. */
+export function nameSimilarity(a: string, b: string): number {
+  return tokenSimilarity(new Set(normalizeName(a)), new Set(normalizeName(b)));
+}
+
+function scoreNormalized(a: NormalizedClient, b: NormalizedClient): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (a.email && a.email === b.email) {
+    score += EMAIL_WEIGHT;
+    reasons.push("Mesmo e-mail");
+  }
+
+  if (phonesMatch(a.phone, b.phone)) {
+    score += PHONE_WEIGHT;
+    reasons.push("Mesmo telefone");
+  }
+
+  const similarity = tokenSimilarity(a.tokens, b.tokens);
+  if (similarity >= 0.5) {
+    score += Math.round(NAME_WEIGHT * similarity);
+    reasons.push(similarity === 1 ? "Mesmo nome" : "Nome parecido");
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+export function scoreDuplicate(a: ClientLike, b: ClientLike): { score: number; reasons: string[] } {
+  return scoreNormalized(normalizeClient(a), normalizeClient(b));
+}
+
+/**
+ * Pares de cadastros prováveis de serem a mesma pessoa, dos mais para os menos prováveis.
+ * Cada cadastro é normalizado uma única vez antes da comparação par a par.
+ */
+export function findDuplicateClients<T extends ClientLike>(clients: T[]): DuplicateCandidate<T>[] {
+  const normalized = clients.map(normalizeClient);
+  const candidates: DuplicateCandidate<T>[] = [];
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const { score, reasons } = scoreNormalized(normalized[i], normalized[j]);
+      if (score >= DUPLICATE_THRESHOLD) {
+        candidates.push({ a: clients[i], b: clients[j], score, reasons });
+      }
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
@@ -0,0 +1,213 @@
+import { normalizeEmail, normalizePhone, phonesMatch } from "@/lib/clientDuplicates";
+
+export type ContactField = "name" | "email" | "phone" | "address";
+
+export const contactFieldLabels: Record<ContactField, string> = {
+  name: "Nome",
+  email: "Email",
+  phone: "Telefone",
+  address: "Endereço",
+};
+
+export interface ImportedContact {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+}
+
+/** Coluna do CSV usada para cada campo; -1 quando o campo não vem no arquivo. */
+export type ColumnMapping = Record<ContactField, number>;
+
+export type ImportRowStatus = "new" | "update" | "duplicate" | "invalid";
+
+export const importRowStatusLabels: Record<ImportRowStatus, string> = {
+  new: "Novo",
+  update: "Completa cadastro",
+  duplicate: "Duplicado",
+  invalid: "Inválido",
+};
+
+interface ExistingClient {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+export interface ImportRow<T extends ExistingClient> {
+  contact: ImportedContact;
+  status: ImportRowStatus;
+  reason?: string;
+  existing?: T;
+  /** Campos vazios no cadastro existente que o arquivo preenche. */
+  changes?: Partial<ImportedContact>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Telefone no formato brasileiro: (11) 98765-4321, (11) 3456-7890 ou sem DDD.
+ * Números que não parecem brasileiros ficam como vieram.
+ */
+export function formatBrazilianPhone(raw: string): string {
+  if (/^\s*\+(?!\s*55)/.test(raw)) return raw.trim();
+  const digits = normalizePhone(raw);
+
+  switch (digits.length) {
+    case 11:
+      return `(${digits.slice(0, 2)}) ${digits.slice(2, 7)}-${digits.slice(7)}`;
+    case 10:
+      return `(${digits.slice(0, 2)}) ${digits.slice(2, 6)}-${digits.slice(6)}`;
+    case 9:
+      return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+    case 8:
+      return `${digits.slice(0, 4)}-${digits.slice(4)}`;
+    default:
+      return raw.trim();
+  }
+}
+
+const cleanContact = (contact: ImportedContact): ImportedContact => ({
+  name: contact.name.replace(/\s+/g, " ").trim(),
+  email: normalizeEmail(contact.email),
+  phone: contact.phone ? formatBrazilianPhone(contact.phone) : "",
+  address: contact.address.replace(/\s+/g, " ").trim(),
+});
+
+// vCard: valores escapados com barra invertida (RFC 6350, seção 3.4)
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1");
+
+const splitVCardComponents = (value: string) =>
+  value.split(/(?<!\\);/).map(component => unescapeVCard(component).trim());
+
+/** Contatos de um arquivo .vcf (vCard 3.0 ou 4.0), um por bloco BEGIN:VCARD. */
+export function parseVCard(text: string): ImportedContact[] {
+  // Linhas longas continuam na seguinte começando com espaço ou tab
+  const unfolded = text.replace(/\r?\n[ \t]/g, "");
+  const cards = unfolded.split(/^BEGIN:VCARD\s*$/im).slice(1);
+
+  return cards.map((card) => {
+    const properties = card.split(/\r?\n/).map((line) => {
+      const separator = line.indexOf(":");
+      if (separator < 0) return null;
+      const [nameWithGroup, ...params] = line.slice(0, separator).split(";");
+      return {
+        name: nameWithGroup.replace(/^[^.]+\./, "").toUpperCase(),
+        params: params.join(";").toUpperCase(),
+        value: line.slice(separator + 1),
+      };
+    }).filter((property): property is { name: string; params: string; value: string } => property !== null);
+
+    const first = (name: string) => properties.find(property => property.name === name);
+
+    // N: sobrenome;nome;nomes do meio;prefixo;sufixo
+    const structuredName = first("N");
+    const [family = "", given = "", additional = ""] = structuredName ? splitVCardComponents(structuredName.value) : [];
+    const name = unescapeVCard(first("FN")?.value ?? "") || [given, additional, family].filter(Boolean).join(" ");
+
+    const phones = properties.filter(property => property.name === "TEL");
+    const phone = phones.find(property => /CELL/.test(property.params)) ?? phones[0];
+
+    // ADR: caixa postal;complemento;rua;cidade;estado;CEP;país
+    const address = first("ADR");
+    const addressParts = address ? splitVCardComponents(address.value) : [];
+    const [, extended = "", street = "", city = "", region = "", postalCode = ""] = addressParts;
+
+    return cleanContact({
+      name,
+      email: unescapeVCard(first("EMAIL")?.value ?? ""),
+      phone: (phone?.value ?? "").replace(/^tel:/i, ""),
+      address: [street, extended, city, region, postalCode].filter(Boolean).join(", "),
+    });
+  });
+}
+
+const normalizeHeader = (header: string) =>
+  header.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z]/g, "");
+
+const headerPatterns: Record<ContactField, RegExp> = {
+  name: /nome|name|cliente|contato/,
+  email: /email|mail/,
+  phone: /telefone|celular|fone|phone|whatsapp|mobile|tel/,
+  address: /endereco|address|logradouro|rua/,
+};
+
+/** Sugere a coluna de cada campo pelo cabeçalho, em português ou inglês. */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+
+  const find = (field: ContactField) => {
+    const index = normalized.findIndex((cell, i) => !used.has(i) && headerPatterns[field].test(cell));
+    if (index >= 0) used.add(index);
+    return index;
+  };
+
+  // E-mail e telefone antes do nome, para "Nome do contato" não capturar "E-mail do contato"
+  const email = find("email");
+  const phone = find("phone");
+  const address = find("address");
+  const name = find("name");
+
+  return { name, email, phone, address };
+}
+
+export function mapCSVRows(rows: string[][], mapping: ColumnMapping): ImportedContact[] {
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? "" : "");
+
+  return rows.map(row => cleanContact({
+    name: cell(row, mapping.name),
+    email: cell(row, mapping.email),
+    phone: cell(row, mapping.phone),
+    address: cell(row, mapping.address),
+  }));
+}
+
+const sameContact = (contact: ImportedContact, other: { email?: string | null; phone?: string | null }) =>
+  (!!contact.email && contact.email === normalizeEmail(other.email)) ||
+  (!!contact.phone && phonesMatch(normalizePhone(contact.phone), normalizePhone(other.phone)));
+
+/**
+ * Decide o que fazer com cada contato: criar, completar um cliente existente com o
+ * mesmo email ou telefone, ignorar por duplicado ou rejeitar por dado inválido.
+ */
+export function planClientImport<T extends ExistingClient>(contacts: ImportedContact[], existing: T[]): ImportRow<T>[] {
+  const accepted: ImportedContact[] = [];
+
+  return contacts.map((contact): ImportRow<T> => {
+    if (!contact.name) return { contact, status: "invalid", reason: "Sem nome" };
+    if (contact.email && !EMAIL_PATTERN.test(contact.email)) {
+      return { contact, status: "invalid", reason: "Email inválido" };
+    }
+
+    if (accepted.some(other => sameContact(contact, other))) {
+      return { contact, status: "duplicate", reason: "Repetido no arquivo" };
+    }
+    accepted.push(contact);
+
+    const match = existing.find(client => sameContact(contact, client));
+    if (!match) return { contact, status: "new" };
+
+    const changes = Object.fromEntries(
+      (["email", "phone", "address"] as const)
+        .filter(field => contact[field] && !match[field])
+        .map(field => [field, contact[field]])
+    ) as Partial<ImportedContact>;
+
+    // Completar o cadastro não pode copiar um email ou telefone que já é de outro cliente
+    const conflict = existing.find(client => client.id !== match.id && sameContact(
+      { ...contact, email: changes.email ?? "", phone: changes.phone ?? "" },
+      client,
+    ));
+    if (conflict) {
+      return { contact, status: "duplicate", existing: match, reason: `Contato já usado por ${conflict.name}` };
+    }
+
+    return Object.keys(changes).length > 0
+      ? { contact, status: "update", existing: match, changes }
+      : { contact, status: "duplicate", existing: match, reason: `Já cadastrado como ${match.name}` };
+  });
+}
@@ -0,0 +1,48 @@
+import { subMonths } from "date-fns";
+import { ClientStats } from "@/lib/clientStats";
+
+/** Origens sugeridas no cadastro; o campo aceita qualquer texto. */
+export const leadSources = [
+  "Instagram",
+  "Indicação",
+  "Google",
+  "Site",
+  "WhatsApp",
+  "Facebook",
+  "Evento",
+  "Outro",
+];
+
+export type ClientSegment = "inactive" | "never_shot" | "high_value" | "outstanding";
+
+export const INACTIVE_MONTHS = 12;
+export const HIGH_VALUE_THRESHOLD = 2000;
+
+export const clientSegmentLabels: Record<ClientSegment, string> = {
+  inactive: `Sem ensaio há ${INACTIVE_MONTHS} meses`,
+  never_shot: "Nunca fotografou",
+  high_value: "Valor total acima de R$ 2.000",
+  outstanding: "Com parcelas em aberto",
+};
+
+/** Etiquetas em minúsculas, sem espaços sobrando e sem repetição. */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map(tag => tag.replace(/\s+/g, " ").trim().toLowerCase()).filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/** Segmentos calculados a partir da agenda e dos lançamentos do cliente. */
+export function getClientSegments(stats: ClientStats, now = new Date()): ClientSegment[] {
+  const segments: ClientSegment[] = [];
+
+  if (!stats.lastShootDate) {
+    segments.push("never_shot");
+  } else if (new Date(stats.lastShootDate) < subMonths(now, INACTIVE_MONTHS)) {
+    segments.push("inactive");
+  }
+
+  if (stats.lifetimeValue > HIGH_VALUE_THRESHOLD) segments.push("high_value");
+  if (stats.outstanding > 0) segments.push("outstanding");
+
+  return segments;
+}
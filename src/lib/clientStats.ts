@@ -0,0 +1,53 @@
+import { toCents } from "@/lib/paymentPlan";
+import { getBalance } from "@/lib/receivables";
+
+interface ClientTransaction {
+  type: string;
+  amount: number;
+}
+
+interface ClientAppointment {
+  start_date: string;
+  status: string;
+}
+
+interface ClientReceivable {
+  amount: number;
+  due_date: string;
+  transactions: { amount: number }[];
+}
+
+export interface ClientStats {
+  lifetimeValue: number;
+  averageTicket: number;
+  lastShootDate: string | null;
+  outstanding: number;
+}
+
+/**
+ * Indicadores do cliente. O ticket médio divide o que ele já pagou pelos ensaios
+ * realizados; sem ensaios na agenda, pelo número de receitas lançadas.
+ */
+export function getClientStats(
+  transactions: ClientTransaction[],
+  appointments: ClientAppointment[],
+  receivables: ClientReceivable[],
+  now = new Date(),
+): ClientStats {
+  const incomes = transactions.filter(t => t.type === "income");
+  const lifetimeCents = incomes.reduce((sum, t) => sum + toCents(Number(t.amount)), 0);
+
+  const shoots = appointments
+    .filter(a => a.status !== "cancelled" && new Date(a.start_date) <= now)
+    .map(a => a.start_date)
+    .sort();
+
+  const tickets = shoots.length || incomes.length;
+
+  return {
+    lifetimeValue: lifetimeCents / 100,
+    averageTicket: tickets > 0 ? Math.round(lifetimeCents / tickets) / 100 : 0,
+    lastShootDate: shoots[shoots.length - 1] ?? null,
+    outstanding: receivables.reduce((sum, r) => sum + toCents(Math.max(getBalance(r), 0)), 0) / 100,
+  };
+}
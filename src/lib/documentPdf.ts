@@ -0,0 +1,194 @@
+import { jsPDF } from "jspdf";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export type DocumentKind = "receipt" | "invoice";
+
+export const documentKindLabels: Record<DocumentKind, string> = {
+  receipt: "Recibo",
+  invoice: "Fatura",
+};
+
+export interface DocumentItem {
+  description: string;
+  quantity: number;
+  price: number;
+}
+
+export interface IssuedDocument {
+  kind: DocumentKind;
+  number: number;
+  client_name?: string | null;
+  description: string;
+  items: DocumentItem[];
+  total: number;
+  issue_date: string;
+}
+
+export interface DocumentPix {
+  payload: string;
+  qrCode: string;
+}
+
+export interface StudioProfile {
+  studio_name?: string | null;
+  document?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+const PAGE_MARGIN = 20;
+const PAGE_RIGHT = 190;
+const PAGE_BOTTOM = 270;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+};
+
+export const formatDocumentNumber = (kind: DocumentKind, number: number) =>
+  `${kind === "receipt" ? "REC" : "FAT"}-${String(number).padStart(6, "0")}`;
+
+export const getDocumentFileName = (document: Pick<IssuedDocument, "kind" | "number">) =>
+  `${documentKindLabels[document.kind].toLowerCase()}-${formatDocumentNumber(document.kind, document.number)}.pdf`;
+
+/** Monta o PDF a partir do documento salvo, para que a segunda via saia igual à primeira. */
+export function buildDocumentPdf(document: IssuedDocument, studio: StudioProfile, pix?: DocumentPix | null): jsPDF {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  let y = 25;
+
+  // Cabeçalho do estúdio
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(18);
+  pdf.text(studio.studio_name || "FrameBOX", PAGE_MARGIN, y);
+
+  pdf.setFontSize(14);
+  pdf.text(documentKindLabels[document.kind], PAGE_RIGHT, y, { align: "right" });
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+  pdf.setTextColor(100);
+  pdf.text(`Nº ${formatDocumentNumber(document.kind, document.number)}`, PAGE_RIGHT, y + 6, { align: "right" });
+  pdf.text(`Emissão: ${format(parseISO(document.issue_date), "dd/MM/yyyy")}`, PAGE_RIGHT, y + 11, { align: "right" });
+
+  const studioLines = [
+    studio.document,
+    studio.address,
+    [studio.phone, studio.email].filter(Boolean).join(" · "),
+  ].filter(Boolean) as string[];
+
+  studioLines.forEach((line) => {
+    y += 5;
+    pdf.text(line, PAGE_MARGIN, y);
+  });
+
+  y = Math.max(y, 36) + 8;
+  pdf.setDrawColor(200);
+  pdf.line(PAGE_MARGIN, y, PAGE_RIGHT, y);
+
+  // Cliente e referência
+  y += 10;
+  pdf.setTextColor(0);
+  pdf.setFontSize(11);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Cliente:", PAGE_MARGIN, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(document.client_name || "Não informado", PAGE_MARGIN + 18, y);
+
+  y += 6;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Referente a:", PAGE_MARGIN, y);
+  pdf.setFont("helvetica", "normal");
+  const descriptionLines: string[] = pdf.splitTextToSize(document.description, PAGE_RIGHT - PAGE_MARGIN - 26);
+  pdf.text(descriptionLines, PAGE_MARGIN + 26, y);
+  y += descriptionLines.length * 5 + 8;
+
+  // Itens
+  const drawTableHeader = () => {
+    pdf.setFillColor(243, 244, 246);
+    pdf.rect(PAGE_MARGIN, y - 5, PAGE_RIGHT - PAGE_MARGIN, 8, "F");
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(10);
+    pdf.text("Descrição", PAGE_MARGIN + 2, y);
+    pdf.text("Qtd", 120, y, { align: "right" });
+    pdf.text("Valor unit.", 155, y, { align: "right" });
+    pdf.text("Total", PAGE_RIGHT - 2, y, { align: "right" });
+    pdf.setFont("helvetica", "normal");
+    y += 8;
+  };
+
+  drawTableHeader();
+
+  document.items.forEach((item) => {
+    const lines: string[] = pdf.splitTextToSize(item.description, 90);
+
+    if (y + lines.length * 5 > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = 25;
+      drawTableHeader();
+    }
+
+    pdf.text(lines, PAGE_MARGIN + 2, y);
+    pdf.text(String(item.quantity), 120, y, { align: "right" });
+    pdf.text(formatCurrency(item.price), 155, y, { align: "right" });
+    pdf.text(formatCurrency(item.price * item.quantity), PAGE_RIGHT - 2, y, { align: "right" });
+    y += lines.length * 5 + 3;
+  });
+
+  pdf.line(PAGE_MARGIN, y - 2, PAGE_RIGHT, y - 2);
+  y += 5;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(12);
+  pdf.text("Total", 155, y, { align: "right" });
+  pdf.text(formatCurrency(document.total), PAGE_RIGHT - 2, y, { align: "right" });
+
+  // Declaração e assinatura do recibo
+  if (document.kind === "receipt") {
+    y += 15;
+    if (y > PAGE_BOTTOM - 30) {
+      pdf.addPage();
+      y = 25;
+    }
+
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(11);
+    const statement: string[] = pdf.splitTextToSize(
+      `Recebi(emos) de ${document.client_name || "cliente não informado"} a importância de ` +
+      `${formatCurrency(document.total)} referente a ${document.description}.`,
+      PAGE_RIGHT - PAGE_MARGIN,
+    );
+    pdf.text(statement, PAGE_MARGIN, y);
+
+    y += statement.length * 5 + 20;
+    pdf.line(70, y, 140, y);
+    pdf.setFontSize(10);
+    pdf.text(studio.studio_name || "FrameBOX", 105, y + 5, { align: "center" });
+    pdf.setTextColor(100);
+    pdf.text(format(parseISO(document.issue_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR }), 105, y + 10, { align: "center" });
+  }
+
+  // Pix do documento: QR Code e "copia e cola" (cobrança na fatura, comprovante no recibo)
+  if (pix) {
+    y += 15;
+    if (y > PAGE_BOTTOM - 50) {
+      pdf.addPage();
+      y = 25;
+    }
+
+    pdf.setTextColor(0);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(11);
+    pdf.text(document.kind === "invoice" ? "Pague com Pix" : "Pix", PAGE_MARGIN, y);
+    pdf.addImage(pix.qrCode, "PNG", PAGE_MARGIN, y + 3, 40, 40);
+
+    pdf.setFont("courier", "normal");
+    pdf.setFontSize(7);
+    const payloadLines: string[] = pdf.splitTextToSize(pix.payload, PAGE_RIGHT - PAGE_MARGIN - 48);
+    pdf.text(payloadLines, PAGE_MARGIN + 46, y + 8);
+  }
+
+  return pdf;
+}
@@ -0,0 +1,225 @@
+import { addDays, format, parseISO } from "date-fns";
+import { toCents } from "@/lib/paymentPlan";
+import { TransactionType, isInflow } from "@/lib/accounts";
+import { getBalance } from "@/lib/receivables";
+import { RecurrenceFrequency, getOccurrences } from "@/lib/recurrence";
+import { getCardInvoices } from "@/lib/cardInvoices";
+import { getServicesTotal } from "@/lib/appointmentServices";
+
+export const FORECAST_DAYS = 90;
+
+export type ForecastSource = "scheduled" | "appointment" | "receivable" | "recurring" | "invoice";
+
+export const forecastSourceLabels: Record<ForecastSource, string> = {
+  scheduled: "Lançamento futuro",
+  appointment: "Compromisso",
+  receivable: "A receber",
+  recurring: "Recorrente",
+  invoice: "Fatura do cartão",
+};
+
+/** Movimento previsto; amount com sinal (saída negativa). */
+export interface ForecastEvent {
+  date: string;
+  amount: number;
+  description: string;
+  source: ForecastSource;
+}
+
+export interface ForecastDay {
+  date: string;
+  inflow: number;
+  outflow: number;
+  balance: number;
+  events: ForecastEvent[];
+}
+
+interface ForecastAccount {
+  id: string;
+  kind: string;
+  opening_balance: number;
+  closing_day: number | null;
+  due_day: number | null;
+}
+
+interface ForecastTransaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  account_id?: string | null;
+  invoice_due_date?: string | null;
+}
+
+interface ForecastAppointment {
+  title: string;
+  start_date: string;
+  appointment_services: { price: number | null; quantity: number | null }[];
+  receivables: { id: string }[];
+  transactions: { id: string } | null;
+}
+
+interface ForecastReceivable {
+  description: string;
+  amount: number;
+  due_date: string;
+  transactions: { amount: number }[];
+}
+
+interface ForecastRecurring {
+  id: string;
+  type: string;
+  amount: number;
+  description: string;
+  frequency: string;
+  start_date: string;
+  end_date: string | null;
+}
+
+interface ForecastRecurringOverride {
+  recurring_id: string;
+  occurrence_date: string;
+  skipped: boolean;
+  amount: number | null;
+  description: string | null;
+}
+
+interface ForecastSources {
+  accounts: ForecastAccount[];
+  transactions: ForecastTransaction[];
+  appointments: ForecastAppointment[];
+  receivables: ForecastReceivable[];
+  recurring: ForecastRecurring[];
+  recurringOverrides: ForecastRecurringOverride[];
+}
+
+const signed = (type: TransactionType, amount: number) => (isInflow(type) ? 1 : -1) * toCents(Number(amount));
+
+/**
+ * Saldo disponível hoje: contas que não são cartão (e lançamentos sem conta) até a data de hoje.
+ * O cartão entra na previsão pelo vencimento das faturas, não pela data da compra.
+ */
+export function getCurrentCashBalance(
+  accounts: ForecastAccount[],
+  transactions: ForecastTransaction[],
+  today: string,
+): number {
+  const cards = new Set(accounts.filter(account => account.kind === "card").map(account => account.id));
+  const opening = accounts
+    .filter(account => !cards.has(account.id))
+    .reduce((sum, account) => sum + toCents(Number(account.opening_balance)), 0);
+
+  return transactions
+    .filter(t => !(t.account_id && cards.has(t.account_id)) && t.transaction_date <= today)
+    .reduce((sum, t) => sum + signed(t.type, t.amount), opening) / 100;
+}
+
+/**
+ * Junta o que já se sabe dos próximos dias. Compromissos que já geraram parcelas
+ * ou foram pagos ficam de fora para não contar a mesma receita duas vezes.
+ */
+export function getForecastEvents(sources: ForecastSources, today: string, until: string): ForecastEvent[] {
+  const cards = sources.accounts.filter(account => account.kind === "card");
+  const cardIds = new Set(cards.map(card => card.id));
+  const tomorrow = format(addDays(parseISO(today), 1), "yyyy-MM-dd");
+
+  const scheduled: ForecastEvent[] = sources.transactions
+    .filter(t => !(t.account_id && cardIds.has(t.account_id)) && t.transaction_date > today)
+    .map(t => ({
+      date: t.transaction_date,
+      amount: signed(t.type, t.amount) / 100,
+      description: t.description,
+      source: "scheduled",
+    }));
+
+  const appointments: ForecastEvent[] = sources.appointments
+    .filter(a => a.receivables.length === 0 && !a.transactions)
+    .map(a => ({
+      date: format(parseISO(a.start_date), "yyyy-MM-dd"),
+      amount: getServicesTotal(a.appointment_services),
+      description: a.title,
+      source: "appointment" as const,
+    }))
+    .filter(event => event.amount > 0);
+
+  const receivables: ForecastEvent[] = sources.receivables
+    .filter(r => getBalance(r) > 0)
+    .map(r => ({
+      date: r.due_date,
+      amount: getBalance(r),
+      description: r.description,
+      source: "receivable",
+    }));
+
+  // O que vence até hoje já foi lançado por generate_recurring_transactions;
+  // ocorrências puladas ficam de fora e as ajustadas usam o valor alterado
+  const recurring: ForecastEvent[] = sources.recurring.flatMap(rule =>
+    getOccurrences({ ...rule, frequency: rule.frequency as RecurrenceFrequency }, tomorrow, until).flatMap(date => {
+      const override = sources.recurringOverrides.find(o => o.recurring_id === rule.id && o.occurrence_date === date);
+      if (override?.skipped) return [];
+
+      return [{
+        date,
+        amount: (rule.type === "income" ? 1 : -1) * Number(override?.amount ?? rule.amount),
+        description: override?.description ?? rule.description,
+        source: "recurring" as const,
+      }];
+    })
+  );
+
+  const invoices: ForecastEvent[] = cards.flatMap(card =>
+    getCardInvoices(card, sources.transactions, today)
+      .filter(invoice => invoice.balance > 0)
+      .map(invoice => ({
+        date: invoice.dueDate,
+        amount: -invoice.balance,
+        description: `Fatura ${format(parseISO(invoice.dueDate), "MM/yyyy")}`,
+        source: "invoice" as const,
+      }))
+  );
+
+  return [...scheduled, ...appointments, ...receivables, ...recurring, ...invoices]
+    .filter(event => event.date <= until);
+}
+
+/**
+ * Saldo projetado ao fim de cada dia a partir de hoje. Valores em atraso
+ * (parcelas e faturas vencidas) entram no primeiro dia, como se acertados hoje.
+ */
+export function buildForecast(
+  openingBalance: number,
+  events: ForecastEvent[],
+  today: string,
+  days = FORECAST_DAYS,
+): ForecastDay[] {
+  let balance = toCents(openingBalance);
+
+  return Array.from({ length: days + 1 }, (_, i) => {
+    const date = format(addDays(parseISO(today), i), "yyyy-MM-dd");
+    const dayEvents = events.filter(event => (i === 0 ? event.date <= date : event.date === date));
+    const inflow = dayEvents.filter(event => event.amount > 0).reduce((sum, event) => sum + toCents(event.amount), 0);
+    const outflow = dayEvents.filter(event => event.amount < 0).reduce((sum, event) => sum - toCents(event.amount), 0);
+    balance += inflow - outflow;
+
+    return { date, inflow: inflow / 100, outflow: outflow / 100, balance: balance / 100, events: dayEvents };
+  });
+}
+
+/** Trechos consecutivos de dias com saldo projetado negativo, com o pior saldo de cada um. */
+export function getNegativePeriods(days: ForecastDay[]): { start: string; end: string; lowest: number }[] {
+  const periods: { start: string; end: string; lowest: number }[] = [];
+
+  days.forEach((day, i) => {
+    if (day.balance >= 0) return;
+    const current = periods[periods.length - 1];
+    if (current && days[i - 1]?.balance < 0) {
+      current.end = day.date;
+      current.lowest = Math.min(current.lowest, day.balance);
+    } else {
+      periods.push({ start: day.date, end: day.date, lowest: day.balance });
+    }
+  });
+
+  return periods;
+}
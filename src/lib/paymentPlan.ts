@@ -0,0 +1,77 @@
+import { addMonths, format, parseISO } from "date-fns";
+
+export type ReceivableKind = "deposit" | "installment";
+
+export interface PaymentPlanItem {
+  id?: string;
+  kind: ReceivableKind;
+  installment_number: number;
+  description: string;
+  amount: number;
+  due_date: string;
+  paid_amount?: number;
+}
+
+interface PaymentPlanOptions {
+  total: number;
+  depositPercent: number;
+  installments: number;
+  depositDate: string;
+  firstDueDate: string;
+}
+
+export const toCents = (value: number) => Math.round(value * 100);
+
+/** Soma do plano em centavos, para comparar com o total dos serviços sem erro de arredondamento. */
+export const getPlanTotalCents = (plan: PaymentPlanItem[]) =>
+  plan.reduce((total, item) => total + toCents(item.amount), 0);
+
+/**
+ * Divide o total em entrada + parcelas mensais. Os centavos que sobram da
+ * divisão vão para a última parcela, para que a soma bata com o total.
+ */
+export function buildPaymentPlan({
+  total,
+  depositPercent,
+  installments,
+  depositDate,
+  firstDueDate,
+}: PaymentPlanOptions): PaymentPlanItem[] {
+  const totalCents = toCents(total);
+  const depositCents = installments > 0
+    ? Math.round(totalCents * Math.min(Math.max(depositPercent, 0), 100) / 100)
+    : totalCents;
+  const remainingCents = totalCents - depositCents;
+  const plan: PaymentPlanItem[] = [];
+
+  if (depositCents > 0) {
+    plan.push({
+      kind: "deposit",
+      installment_number: 0,
+      description: "Entrada",
+      amount: depositCents / 100,
+      due_date: depositDate,
+    });
+  }
+
+  if (remainingCents > 0) {
+    const baseCents = Math.floor(remainingCents / installments);
+    const firstDue = parseISO(firstDueDate);
+
+    for (let n = 1; n <= installments; n++) {
+      const amountCents = n === installments
+        ? remainingCents - baseCents * (installments - 1)
+        : baseCents;
+
+      plan.push({
+        kind: "installment",
+        installment_number: n,
+        description: `Parcela ${n}/${installments}`,
+        amount: amountCents / 100,
+        due_date: format(addMonths(firstDue, n - 1), "yyyy-MM-dd"),
+      });
+    }
+  }
+
+  return plan;
+}
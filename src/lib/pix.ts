@@ -0,0 +1,87 @@
+// BR Code estático do Pix (padrão EMV QRCPS-MPM do Banco Central), gerado sem
+// nenhum serviço externo: só a chave, o valor e os dados do recebedor.
+
+interface PixChargeOptions {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+  description?: string;
+}
+
+const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, "0")}${value}`;
+
+// O padrão só aceita ASCII; nomes e cidades perdem acentos e são truncados
+const sanitize = (value: string, maxLength: number) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .,\-@/]/g, "")
+    .trim()
+    .slice(0, maxLength);
+
+/** CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), como exige o campo 63. */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/** txid aceita até 25 caracteres alfanuméricos; usamos o início do id do agendamento. */
+export const toPixTxid = (id?: string | null) =>
+  id ? id.replace(/[^A-Za-z0-9]/g, "").slice(0, 25) : "***";
+
+/** Payload "copia e cola" do Pix, já com o CRC no final. */
+export function buildPixPayload({ key, merchantName, merchantCity, amount, txid, description }: PixChargeOptions): string {
+  const merchantAccount =
+    field("00", "br.gov.bcb.pix") +
+    field("01", key.trim()) +
+    (description ? field("02", sanitize(description, 40)) : "");
+
+  const payload =
+    field("00", "01") +
+    field("26", merchantAccount) +
+    field("52", "0000") +
+    field("53", "986") +
+    (amount && amount > 0 ? field("54", amount.toFixed(2)) : "") +
+    field("58", "BR") +
+    field("59", sanitize(merchantName, 25) || "RECEBEDOR") +
+    field("60", sanitize(merchantCity, 15) || "BRASIL") +
+    field("62", field("05", txid || "***")) +
+    "6304";
+
+  return payload + crc16(payload);
+}
+
+interface PixSettings {
+  pix_key?: string | null;
+  pix_merchant_name?: string | null;
+  pix_merchant_city?: string | null;
+  studio_name?: string | null;
+}
+
+/** Payload a partir das configurações do estúdio; null quando não há chave cadastrada. */
+export function buildPixPayloadFromSettings(
+  settings: PixSettings | null,
+  amount: number,
+  reference?: string | null,
+): string | null {
+  if (!settings?.pix_key) return null;
+
+  return buildPixPayload({
+    key: settings.pix_key,
+    merchantName: settings.pix_merchant_name || settings.studio_name || "",
+    merchantCity: settings.pix_merchant_city || "",
+    amount,
+    txid: toPixTxid(reference),
+  });
+}
@@ -0,0 +1,60 @@
+import { toCents } from "@/lib/paymentPlan";
+
+export type QuoteStatus = "draft" | "sent" | "accepted" | "rejected";
+
+export const quoteStatusLabels: Record<QuoteStatus, string> = {
+  draft: "Rascunho",
+  sent: "Enviado",
+  accepted: "Aceito",
+  rejected: "Recusado",
+};
+
+interface QuoteLine {
+  service_id: string;
+  price: number;
+  quantity: number;
+}
+
+export const getSubtotal = (lines: QuoteLine[]) =>
+  lines.reduce((total, line) => total + line.price * line.quantity, 0);
+
+/**
+ * Agendamentos não têm desconto próprio, então na conversão o desconto do
+ * orçamento é distribuído proporcionalmente nos preços unitários. A diferença
+ * de arredondamento vai para a primeira linha com quantidade 1; sem nenhuma, uma
+ * unidade de outra linha vira linha própria para recebê-la, mantendo o total exato.
+ * Só recebe a diferença uma linha cujo preço não fique negativo com ela.
+ */
+export function applyDiscount<T extends QuoteLine>(lines: T[], discount: number): T[] {
+  const subtotalCents = toCents(getSubtotal(lines));
+  const discountCents = Math.min(toCents(discount), subtotalCents);
+  if (discountCents <= 0 || subtotalCents === 0) return lines;
+
+  const factor = (subtotalCents - discountCents) / subtotalCents;
+  const discounted = lines.map(line => ({
+    ...line,
+    price: Math.round(toCents(line.price) * factor) / 100,
+  }));
+
+  const differenceCents = subtotalCents - discountCents - toCents(getSubtotal(discounted));
+  if (differenceCents === 0) return discounted;
+
+  const absorbs = (line: T) => toCents(line.price) + differenceCents >= 0;
+
+  const single = discounted.find(line => line.quantity === 1 && absorbs(line));
+  if (single) {
+    single.price = (toCents(single.price) + differenceCents) / 100;
+    return discounted;
+  }
+
+  const index = discounted.findIndex(line => line.quantity > 1 && absorbs(line));
+  if (index < 0) return discounted;
+
+  const split = discounted[index];
+  return [
+    ...discounted.slice(0, index),
+    { ...split, quantity: split.quantity - 1 },
+    { ...split, quantity: 1, price: (toCents(split.price) + differenceCents) / 100 },
+    ...discounted.slice(index + 1),
+  ];
+}
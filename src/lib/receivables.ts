@@ -0,0 +1,37 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { toCents } from "@/lib/paymentPlan";
+
+export type ReceivableStatus = "pending" | "partial" | "overdue" | "paid";
+
+export const receivableStatusLabels: Record<ReceivableStatus, string> = {
+  pending: "A vencer",
+  partial: "Parcial",
+  overdue: "Vencida",
+  paid: "Paga",
+};
+
+interface ReceivableLike {
+  amount: number;
+  due_date: string;
+  transactions: { amount: number }[];
+}
+
+export const getPaidAmount = (receivable: ReceivableLike) =>
+  receivable.transactions.reduce((total, payment) => total + Number(payment.amount), 0);
+
+export const getBalance = (receivable: ReceivableLike) =>
+  (toCents(receivable.amount) - toCents(getPaidAmount(receivable))) / 100;
+
+/** Vencida tem prioridade sobre parcial: o que importa é que há saldo em atraso. */
+export function getReceivableStatus(receivable: ReceivableLike, today = format(new Date(), "yyyy-MM-dd")): ReceivableStatus {
+  const paid = getPaidAmount(receivable);
+
+  if (getBalance(receivable) <= 0) return "paid";
+  if (receivable.due_date < today) return "overdue";
+  if (paid > 0) return "partial";
+  return "pending";
+}
+
+/** Dias em atraso (0 quando ainda não venceu). */
+export const getDaysOverdue = (dueDate: string, today = new Date()) =>
+  Math.max(differenceInCalendarDays(today, parseISO(dueDate)), 0);
@@ -0,0 +1,57 @@
+import { toCents } from "@/lib/paymentPlan";
+import { TransactionType, isInflow } from "@/lib/accounts";
+
+interface BookEntry {
+  type: TransactionType;
+  amount: number;
+  transaction_date: string;
+}
+
+interface BankEntry {
+  amount: number;
+  line_date: string;
+}
+
+export interface RunningBalance {
+  date: string;
+  book: number;
+  bank: number;
+  difference: number;
+}
+
+/** Valor com sinal do lançamento do caixa, na mesma convenção do extrato (saída negativa). */
+export const getSignedAmount = (entry: BookEntry) =>
+  isInflow(entry.type) ? Number(entry.amount) : -Number(entry.amount);
+
+export const amountsMatch = (entry: BookEntry, line: BankEntry) =>
+  toCents(getSignedAmount(entry)) === toCents(Number(line.amount));
+
+/**
+ * Saldo contábil e saldo do banco ao fim de cada dia com movimento no período,
+ * partindo dos saldos de abertura. Cálculo em centavos para a diferença zerar de verdade.
+ */
+export function getRunningBalances(
+  bookEntries: BookEntry[],
+  bankEntries: BankEntry[],
+  openingBook: number,
+  openingBank: number,
+): RunningBalance[] {
+  const dates = [...new Set([
+    ...bookEntries.map(entry => entry.transaction_date),
+    ...bankEntries.map(entry => entry.line_date),
+  ])].sort();
+
+  let book = toCents(openingBook);
+  let bank = toCents(openingBank);
+
+  return dates.map((date) => {
+    book += bookEntries
+      .filter(entry => entry.transaction_date === date)
+      .reduce((sum, entry) => sum + toCents(getSignedAmount(entry)), 0);
+    bank += bankEntries
+      .filter(entry => entry.line_date === date)
+      .reduce((sum, entry) => sum + toCents(Number(entry.amount)), 0);
+
+    return { date, book: book / 100, bank: bank / 100, difference: (book - bank) / 100 };
+  });
+}
@@ -0,0 +1,47 @@
+import { addMonths, addWeeks, addYears, format, parseISO } from "date-fns";
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "quarterly" | "yearly";
+
+export const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  weekly: "Semanal",
+  monthly: "Mensal",
+  quarterly: "Trimestral",
+  yearly: "Anual",
+};
+
+interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date?: string | null;
+}
+
+// Cada ocorrência é calculada a partir da data inicial (e não da anterior) para
+// que regras no dia 31 não "escorreguem" para o dia 28 depois de fevereiro,
+// seguindo a mesma regra de generate_recurring_transactions no banco.
+const addOccurrences = (date: Date, frequency: RecurrenceFrequency, n: number) => {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(date, n);
+    case "monthly":
+      return addMonths(date, n);
+    case "quarterly":
+      return addMonths(date, n * 3);
+    default:
+      return addYears(date, n);
+  }
+};
+
+/** Datas (yyyy-MM-dd) das ocorrências da regra dentro de [from, to]. */
+export function getOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  const start = parseISO(rule.start_date);
+  const limit = rule.end_date && rule.end_date < to ? rule.end_date : to;
+  const occurrences: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const occurrence = format(addOccurrences(start, rule.frequency, n), "yyyy-MM-dd");
+    if (occurrence > limit) break;
+    if (occurrence >= from) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
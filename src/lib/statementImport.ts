@@ -0,0 +1,262 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { toCents } from "@/lib/paymentPlan";
+import { TransactionType, isInflow } from "@/lib/accounts";
+
+export interface StatementLine {
+  import_id: string;
+  date: string;
+  description: string;
+  amount: number;
+}
+
+interface BookTransaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  category_id?: string | null;
+}
+
+/** Extratos de bancos brasileiros costumam vir em Windows-1252; UTF-8 inválido cai nele. */
+export function decodeStatementFile(buffer: ArrayBuffer): string {
+  const utf8 = new TextDecoder("utf-8").decode(buffer);
+  if (!utf8.includes("\uFFFD") && !/CHARSET:\s*1252/i.test(utf8.slice(0, 500))) return utf8;
+  return new TextDecoder("windows-1252").decode(buffer);
+}
+
+export const normalizeDescription = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token.length >= 3);
+
+/** Valor em formato brasileiro ("-1.234,56", "R$ 10,00") ou internacional ("1234.56"). */
+export function parseAmount(raw: string): number | null {
+  let value = raw.replace(/R\$|\s/g, "");
+  let negative = false;
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith("-")) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  if (value.startsWith("-")) {
+    negative = !negative;
+    value = value.slice(1);
+  } else if (value.startsWith("+")) {
+    value = value.slice(1);
+  }
+
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, "").replace(",", ".");
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    value = value.replace(/,/g, "");
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(value)) {
+    value = value.replace(/\./g, "");
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+  const amount = parseFloat(value);
+  return negative ? -amount : amount;
+}
+
+/** Datas dd/MM/yyyy, dd/MM/yy, dd-MM-yyyy ou yyyy-MM-dd, devolvidas como yyyy-MM-dd. */
+export function parseStatementDate(raw: string): string | null {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+}
+
+const ofxTag = (block: string, tag: string) =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1].trim() ?? "";
+
+export function parseOFX(text: string): StatementLine[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const seen = new Map<string, number>();
+
+  return blocks.flatMap((block) => {
+    const posted = ofxTag(block, "DTPOSTED");
+    const amount = parseFloat(ofxTag(block, "TRNAMT").replace(",", "."));
+    if (posted.length < 8 || isNaN(amount)) return [];
+
+    const fitid = ofxTag(block, "FITID");
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`;
+
+    // Sem FITID, lançamentos iguais no mesmo dia recebem um contador, como no CSV
+    let importId = fitid;
+    if (!importId) {
+      const key = `${date}:${toCents(amount)}`;
+      const occurrence = (seen.get(key) ?? 0) + 1;
+      seen.set(key, occurrence);
+      importId = `${key}:${occurrence}`;
+    }
+
+    return [{
+      import_id: `ofx:${importId}`,
+      date,
+      description: ofxTag(block, "MEMO") || ofxTag(block, "NAME") || "Lançamento importado",
+      amount,
+    }];
+  });
+}
+
+const splitCSVLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+const findColumn = (header: string[], pattern: RegExp) =>
+  header.findIndex(cell => pattern.test(normalizeDescription(cell).join(" ") || cell.toLowerCase()));
+
+/** Linhas não vazias do CSV já divididas em células; o separador (";", tab ou ",") é deduzido. */
+export function splitCSV(text: string): string[][] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  const delimiter = [";", "\t", ","]
+    .map(candidate => ({ candidate, count: lines.slice(0, 5).join("\n").split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  return lines.map(line => splitCSVLine(line, delimiter));
+}
+
+export function parseCSV(text: string): StatementLine[] {
+  const rows = splitCSV(text);
+  if (rows.length === 0) return [];
+
+  // Procura a linha de cabeçalho; sem ela, as colunas são deduzidas pelo conteúdo
+  const headerIndex = rows.findIndex(row => findColumn(row, /data|date/) >= 0 && row.some(cell => parseStatementDate(cell) === null));
+  const header = headerIndex >= 0 ? rows[headerIndex] : [];
+  const body = rows.slice(headerIndex + 1);
+
+  let dateColumn = findColumn(header, /data|date/);
+  let descriptionColumn = findColumn(header, /descri|histor|memo|lancamento|estabelecimento|title/);
+  let amountColumn = findColumn(header, /valor|amount|quantia/);
+  const creditColumn = findColumn(header, /credito|entrada/);
+  const debitColumn = findColumn(header, /debito|saida/);
+
+  const sample = body[0] ?? [];
+  if (dateColumn < 0) dateColumn = sample.findIndex(cell => parseStatementDate(cell) !== null);
+  if (amountColumn < 0 && creditColumn < 0) {
+    amountColumn = sample.findIndex((cell, index) => index !== dateColumn && parseAmount(cell) !== null);
+  }
+  if (descriptionColumn < 0) {
+    descriptionColumn = sample.reduce((best, cell, index) =>
+      index !== dateColumn && index !== amountColumn && cell.length > (sample[best]?.length ?? 0) ? index : best, -1);
+  }
+
+  const seen = new Map<string, number>();
+
+  return body.flatMap((row) => {
+    const date = parseStatementDate(row[dateColumn] ?? "");
+    let amount = amountColumn >= 0 ? parseAmount(row[amountColumn] ?? "") : null;
+
+    if (amount === null && (creditColumn >= 0 || debitColumn >= 0)) {
+      const credit = parseAmount(row[creditColumn] ?? "") ?? 0;
+      const debit = parseAmount(row[debitColumn] ?? "") ?? 0;
+      amount = credit - Math.abs(debit);
+    }
+
+    if (!date || amount === null || amount === 0) return [];
+
+    const description = row[descriptionColumn] || "Lançamento importado";
+
+    // Linhas idênticas no mesmo arquivo recebem um contador para não colidirem
+    const key = `${date}:${toCents(amount)}:${normalizeDescription(description).join("-")}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+
+    return [{ import_id: `csv:${key}:${occurrence}`, date, description, amount }];
+  });
+}
+
+export function parseStatement(fileName: string, text: string): StatementLine[] {
+  return /\.ofx$/i.test(fileName) || /<OFX>/i.test(text) ? parseOFX(text) : parseCSV(text);
+}
+
+/** Proporção de palavras em comum entre duas descrições (0 a 1). */
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeDescription(a));
+  const tokensB = new Set(normalizeDescription(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return shared / Math.min(tokensA.size, tokensB.size);
+}
+
+const MATCH_WINDOW_DAYS = 3;
+
+/**
+ * Lançamento do caixa que provavelmente é a mesma linha do extrato: mesma direção
+ * (entrada ou saída, transferências incluídas) e valor, data até 3 dias de diferença
+ * (compensação) e descrição parecida ou data idêntica.
+ */
+export function findMatchingTransaction<T extends BookTransaction>(line: StatementLine, transactions: T[]): T | undefined {
+  const cents = toCents(Math.abs(line.amount));
+
+  return transactions
+    .filter(t =>
+      isInflow(t.type) === line.amount >= 0 &&
+      toCents(Number(t.amount)) === cents &&
+      Math.abs(differenceInCalendarDays(parseISO(t.transaction_date), parseISO(line.date))) <= MATCH_WINDOW_DAYS &&
+      (t.transaction_date === line.date || descriptionSimilarity(t.description, line.description) >= 0.5)
+    )
+    .sort((a, b) =>
+      Math.abs(differenceInCalendarDays(parseISO(a.transaction_date), parseISO(line.date))) -
+      Math.abs(differenceInCalendarDays(parseISO(b.transaction_date), parseISO(line.date)))
+    )[0];
+}
+
+/** Categoria mais usada em lançamentos anteriores com descrição parecida. */
+export function suggestCategory(line: StatementLine, transactions: BookTransaction[]): string | undefined {
+  const type = line.amount >= 0 ? "income" : "expense";
+  const scores = new Map<string, number>();
+
+  transactions.forEach((t) => {
+    if (t.type !== type || !t.category_id) return;
+    const similarity = descriptionSimilarity(t.description, line.description);
+    if (similarity >= 0.5) {
+      scores.set(t.category_id, (scores.get(t.category_id) ?? 0) + similarity);
+    }
+  });
+
+  return [...scores.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
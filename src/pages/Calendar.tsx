@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -11,40 +12,70 @@ import {
 } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
-import { Calendar, Clock, MapPin, User, Plus, DollarSign, Filter, Edit, Trash2 } from "lucide-react";
-import { format, parseISO } from "date-fns";
+import { Plus, Filter, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  format,
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  parseISO,
+} from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { AppointmentDialog } from "@/components/AppointmentDialog";
+import { CalendarAppointment, MonthView, TimeGridView } from "@/components/CalendarViews";
 
-interface Appointment {
-  id: string;
-  title: string;
-  description?: string;
-  start_date: string;
-  end_date: string;
-  location?: string;
-  status: string;
-  clients?: { name: string };
-  appointment_services?: Array<{
-    price: number;
-    quantity: number;
-    services: { name: string };
-  }>;
-}
+type CalendarView = "month" | "week" | "day";
+
+const getVisibleRange = (view: CalendarView, date: Date) => {
+  switch (view) {
+    case "month":
+      return {
+        start: startOfWeek(startOfMonth(date), { locale: ptBR }),
+        end: endOfWeek(endOfMonth(date), { locale: ptBR }),
+      };
+    case "week":
+      return {
+        start: startOfWeek(date, { locale: ptBR }),
+        end: endOfWeek(date, { locale: ptBR }),
+      };
+    default:
+      return { start: startOfDay(date), end: endOfDay(date) };
+  }
+};
 
 export default function CalendarPage() {
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [searchParams] = useSearchParams();
+  const initialDate = searchParams.get("data");
+  const [appointments, setAppointments] = useState<CalendarAppointment[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingAppointment, setEditingAppointment] = useState<Appointment | null>(null);
+  const [editingAppointment, setEditingAppointment] = useState<CalendarAppointment | null>(null);
+  const [defaultStartDate, setDefaultStartDate] = useState<Date | undefined>();
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [view, setView] = useState<CalendarView>(initialDate ? "day" : "month");
+  const [currentDate, setCurrentDate] = useState(initialDate ? parseISO(initialDate) : new Date());
+
+  const { start: rangeStart, end: rangeEnd } = getVisibleRange(view, currentDate);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
 
   useEffect(() => {
-    fetchAppointments();
-  }, []);
+    const { start, end } = getVisibleRange(view, currentDate);
+    fetchAppointments(start, end);
+  }, [view, currentDate]);
+
+  const refreshAppointments = () => fetchAppointments(rangeStart, rangeEnd);
 
-  const fetchAppointments = async () => {
+  const fetchAppointments = async (start: Date, end: Date) => {
+    setLoading(true);
     try {
+      // Apenas compromissos que se sobrepõem ao período visível
       const { data, error } = await supabase
         .from("appointments")
         .select(`
@@ -54,8 +85,11 @@ export default function CalendarPage() {
             price,
             quantity,
             services (name)
-          )
+          ),
+          transactions (id, amount)
         `)
+        .lte("start_date", end.toISOString())
+        .gte("end_date", start.toISOString())
         .order("start_date", { ascending: true });
 
       if (error) throw error;
@@ -72,27 +106,34 @@ export default function CalendarPage() {
     }
   };
 
-  const handleEdit = (appointment: Appointment) => {
+  const handleNew = (start?: Date) => {
+    setEditingAppointment(null);
+    setDefaultStartDate(start);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (appointment: CalendarAppointment) => {
     setEditingAppointment(appointment);
+    setDefaultStartDate(undefined);
     setIsDialogOpen(true);
   };
 
   const handleDelete = async (id: string) => {
     if (!confirm("Tem certeza que deseja excluir este agendamento?")) return;
-    
+
     try {
       const { error } = await supabase
         .from("appointments")
         .delete()
         .eq("id", id);
-      
+
       if (error) throw error;
-      
+
       toast({
         title: "Sucesso",
         description: "Agendamento excluído com sucesso",
       });
-      fetchAppointments();
+      refreshAppointments();
     } catch (error) {
       console.error("Erro ao excluir agendamento:", error);
       toast({
@@ -103,38 +144,32 @@ export default function CalendarPage() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const colors = {
-      scheduled: "bg-blue-100 text-blue-800",
-      completed: "bg-green-100 text-green-800",
-      cancelled: "bg-red-100 text-red-800"
-    };
-    const labels = {
-      scheduled: "Agendado",
-      completed: "Concluído", 
-      cancelled: "Cancelado"
-    };
-    return { color: colors[status as keyof typeof colors], label: labels[status as keyof typeof labels] };
-  };
-
-  const getTotalValue = (appointment: Appointment) => {
-    if (!appointment.appointment_services) return 0;
-    return appointment.appointment_services.reduce((total, service) => 
-      total + (service.price * service.quantity), 0
-    );
+  const navigate = (direction: 1 | -1) => {
+    if (view === "month") setCurrentDate(addMonths(currentDate, direction));
+    else if (view === "week") setCurrentDate(addWeeks(currentDate, direction));
+    else setCurrentDate(addDays(currentDate, direction));
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("pt-BR", {
-      style: "currency",
-      currency: "BRL",
-    }).format(value);
+  const getTitle = () => {
+    if (view === "month") return format(currentDate, "MMMM 'de' yyyy", { locale: ptBR });
+    if (view === "week") {
+      return `${format(rangeStart, "dd/MM")} - ${format(rangeEnd, "dd/MM/yyyy")}`;
+    }
+    return format(currentDate, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR });
   };
 
-  const filteredAppointments = appointments.filter(appointment => 
+  const filteredAppointments = appointments.filter(appointment =>
     statusFilter === "all" || appointment.status === statusFilter
   );
 
+  const viewProps = {
+    days,
+    appointments: filteredAppointments,
+    onSlotClick: handleNew,
+    onEdit: handleEdit,
+    onDelete: handleDelete,
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -142,156 +177,63 @@ export default function CalendarPage() {
           <h1 className="text-3xl font-bold tracking-tight">Agenda</h1>
           <p className="text-muted-foreground">Gerencie seus compromissos</p>
         </div>
-        <Button className="bg-gradient-primary hover:opacity-90 transition-opacity">
+        <Button
+          className="bg-gradient-primary hover:opacity-90 transition-opacity"
+          onClick={() => handleNew()}
+        >
           <Plus className="h-4 w-4 mr-2" />
-          onClick={() => {
-            setEditingAppointment(null);
-            setIsDialogOpen(true);
-          }}
           Novo Compromisso
         </Button>
       </div>
 
-      {/* Filtros */}
-      <div className="flex items-center space-x-2">
-        <Filter className="h-4 w-4 text-muted-foreground" />
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
-          <SelectTrigger className="w-40">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Todos</SelectItem>
-            <SelectItem value="scheduled">Agendados</SelectItem>
-            <SelectItem value="completed">Concluídos</SelectItem>
-            <SelectItem value="cancelled">Cancelados</SelectItem>
-          </SelectContent>
-        </Select>
-        <Badge variant="secondary">
-          {filteredAppointments.length} {filteredAppointments.length === 1 ? "compromisso" : "compromissos"}
-        </Badge>
+      {/* Navegação e Filtros */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentDate(new Date())}>
+            Hoje
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold capitalize ml-2">{getTitle()}</h2>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Mês</TabsTrigger>
+              <TabsTrigger value="week">Semana</TabsTrigger>
+              <TabsTrigger value="day">Dia</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Filter className="h-4 w-4 text-muted-foreground" />
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos</SelectItem>
+              <SelectItem value="scheduled">Agendados</SelectItem>
+              <SelectItem value="completed">Concluídos</SelectItem>
+              <SelectItem value="cancelled">Cancelados</SelectItem>
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary">
+            {loading
+              ? "..."
+              : `${filteredAppointments.length} ${filteredAppointments.length === 1 ? "compromisso" : "compromissos"}`}
+          </Badge>
+        </div>
       </div>
 
-      <div className="space-y-4">
-        {loading ? (
-          <div className="space-y-4">
-            {[...Array(5)].map((_, i) => (
-              <Card key={i} className="animate-pulse">
-                <CardHeader>
-                  <div className="h-4 bg-muted rounded w-3/4"></div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="h-3 bg-muted rounded"></div>
-                    <div className="h-3 bg-muted rounded w-2/3"></div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : filteredAppointments.length === 0 ? (
-          <Card className="text-center py-12">
-            <CardContent>
-              <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">
-                {statusFilter === "all" ? "Nenhum compromisso agendado" : "Nenhum compromisso encontrado"}
-              </h3>
-              <p className="text-muted-foreground">
-                {statusFilter === "all" 
-                  ? "Comece adicionando seu primeiro compromisso"
-                  : "Tente ajustar o filtro ou adicione um novo compromisso"
-                }
-              </p>
-              {statusFilter === "all" && (
-                <Button 
-                  onClick={() => setIsDialogOpen(true)}
-                  className="bg-gradient-primary hover:opacity-90 transition-opacity mt-4"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Adicionar Compromisso
-                </Button>
-              )}
-            </CardContent>
-          </Card>
+      <div className={loading ? "opacity-60 transition-opacity" : "transition-opacity"}>
+        {view === "month" ? (
+          <MonthView currentDate={currentDate} {...viewProps} />
         ) : (
-          filteredAppointments.map((appointment) => (
-            <Card key={appointment.id} className="shadow-md">
-              <CardHeader>
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <CardTitle className="text-lg">{appointment.title}</CardTitle>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(appointment.status).color}`}>
-                      {getStatusBadge(appointment.status).label}
-                    </span>
-                    <div className="flex space-x-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleEdit(appointment)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDelete(appointment.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="flex items-center space-x-2 text-sm">
-                  <Clock className="h-4 w-4 text-muted-foreground" />
-                  <span>
-                    {format(parseISO(appointment.start_date), "dd/MM/yyyy HH:mm", { locale: ptBR })} - 
-                    {format(parseISO(appointment.end_date), "HH:mm", { locale: ptBR })}
-                  </span>
-                </div>
-                {appointment.clients && (
-                  <div className="flex items-center space-x-2 text-sm">
-                    <User className="h-4 w-4 text-muted-foreground" />
-                    <span>{appointment.clients.name}</span>
-                  </div>
-                )}
-                {appointment.location && (
-                  <div className="flex items-center space-x-2 text-sm">
-                    <MapPin className="h-4 w-4 text-muted-foreground" />
-                    <span>{appointment.location}</span>
-                  </div>
-                )}
-                {appointment.description && (
-                  <p className="text-sm text-muted-foreground">{appointment.description}</p>
-                )}
-                
-                {/* Serviços e Valor Total */}
-                {appointment.appointment_services && appointment.appointment_services.length > 0 && (
-                  <div className="border-t pt-3 mt-3">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-medium">Serviços:</span>
-                      <div className="flex items-center space-x-1">
-                        <DollarSign className="h-4 w-4 text-success" />
-                        <span className="font-semibold text-success">
-                          {formatCurrency(getTotalValue(appointment))}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="space-y-1">
-                      {appointment.appointment_services.map((service, index) => (
-                        <div key={index} className="flex justify-between text-sm text-muted-foreground">
-                          <span>{service.services.name} (x{service.quantity})</span>
-                          <span>{formatCurrency(service.price * service.quantity)}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          ))
+          <TimeGridView {...viewProps} />
         )}
       </div>
 
@@ -299,8 +241,9 @@ export default function CalendarPage() {
         open={isDialogOpen}
         onOpenChange={setIsDialogOpen}
         appointment={editingAppointment}
-        onSave={fetchAppointments}
+        defaultStartDate={defaultStartDate}
+        onSave={refreshAppointments}
       />
     </div>
   );
-}
\ No newline at end of file
+}
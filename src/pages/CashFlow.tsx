@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -23,20 +25,56 @@ import {
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
-import { Plus, TrendingUp, TrendingDown, Edit, Trash2, Calendar, Filter } from "lucide-react";
+import { useDocumentDownload } from "@/hooks/use-document-download";
+import { Plus, TrendingUp, Edit, Trash2, Calendar, CalendarCheck, Filter, Tags, Repeat, FileText, Upload, CheckCheck, Wallet, ArrowLeftRight, CreditCard } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { CategoryManager } from "@/components/CategoryManager";
+import { RecurringTransactions } from "@/components/RecurringTransactions";
+import { StatementImportDialog } from "@/components/StatementImportDialog";
+import { BankReconciliation } from "@/components/BankReconciliation";
+import { AccountManager } from "@/components/AccountManager";
+import { TransferDialog } from "@/components/TransferDialog";
+import { CardInvoices } from "@/components/CardInvoices";
+import { BudgetManager } from "@/components/BudgetManager";
+import { BudgetOverview } from "@/components/BudgetOverview";
+import { AccountKind, TransactionType, accountKindLabels, getAccountBalance, isInflow, isTransfer } from "@/lib/accounts";
+import { getBudgetAmount, getBudgetProgress, getCategorySpent, getCrossedBudgetLevel, toBudgetMonth } from "@/lib/budgets";
 
 interface Transaction {
   id: string;
-  type: "income" | "expense";
+  type: TransactionType;
   amount: number;
   description: string;
   category_id?: string;
   client_id?: string;
+  appointment_id?: string;
+  recurring_id?: string;
+  occurrence_date?: string;
+  receivable_id?: string;
+  import_id?: string;
+  reconciled?: boolean;
+  reconciled_at?: string;
+  account_id?: string;
+  transfer_id?: string;
+  invoice_due_date?: string;
   transaction_date: string;
   categories?: { name: string; color: string };
   clients?: { name: string };
+  appointments?: { title: string; start_date: string };
+  receivables?: { description: string; appointments?: { title: string; start_date: string } };
+  accounts?: { name: string };
+}
+
+interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  opening_balance: number;
+  closing_day: number | null;
+  due_day: number | null;
+  is_default: boolean;
+  archived: boolean;
 }
 
 interface Category {
@@ -44,43 +82,83 @@ interface Category {
   name: string;
   type: "income" | "expense";
   color: string;
+  archived: boolean;
 }
 
 interface Client {
   id: string;
   name: string;
+  archived: boolean;
+}
+
+interface Budget {
+  id: string;
+  category_id: string;
+  month: string;
+  amount: number;
 }
 
 export default function CashFlow() {
+  const [searchParams] = useSearchParams();
+  const highlightedId = searchParams.get("transacao");
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isAccountManagerOpen, setIsAccountManagerOpen] = useState(false);
+  const [isBudgetManagerOpen, setIsBudgetManagerOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
-  const [filter, setFilter] = useState<"all" | "income" | "expense">("all");
+  const [filter, setFilter] = useState<"all" | "income" | "expense" | "transfer">("all");
+  const [accountFilter, setAccountFilter] = useState("all");
+  const { issueDocument, downloadingId } = useDocumentDownload();
   const [formData, setFormData] = useState({
     type: "income" as "income" | "expense",
     amount: "",
     description: "",
     category_id: "",
     client_id: "",
+    account_id: "",
     transaction_date: format(new Date(), "yyyy-MM-dd"),
   });
 
+  // Lançamentos sem conta escolhida vão para a conta padrão
+  const defaultAccountId = accounts.find(account => account.is_default)?.id ?? "";
+
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Rolar até a transação aberta a partir da Agenda
+  useEffect(() => {
+    if (!loading && highlightedId) {
+      document.getElementById(`transaction-${highlightedId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [loading, highlightedId]);
+
   const fetchData = async () => {
     try {
-      const [transactionsRes, categoriesRes, clientsRes] = await Promise.all([
+      // Lançar as ocorrências recorrentes que já venceram antes de listar
+      const { error: recurringError } = await supabase.rpc("generate_recurring_transactions");
+      if (recurringError) {
+        console.error("Erro ao gerar transações recorrentes:", recurringError);
+      }
+
+      const [transactionsRes, categoriesRes, clientsRes, accountsRes, budgetsRes] = await Promise.all([
         supabase
           .from("transactions")
           .select(`
             *,
             categories (name, color),
-            clients (name)
+            clients (name),
+            appointments (title, start_date),
+            receivables (description, appointments (title, start_date)),
+            accounts (name)
           `)
           .order("transaction_date", { ascending: false }),
         supabase
@@ -89,17 +167,28 @@ export default function CashFlow() {
           .order("name"),
         supabase
           .from("clients")
-          .select("id, name")
-          .order("name")
+          .select("id, name, archived")
+          .order("name"),
+        supabase
+          .from("accounts")
+          .select("*")
+          .order("name"),
+        supabase
+          .from("category_budgets")
+          .select("*")
       ]);
 
       if (transactionsRes.error) throw transactionsRes.error;
       if (categoriesRes.error) throw categoriesRes.error;
       if (clientsRes.error) throw clientsRes.error;
+      if (accountsRes.error) throw accountsRes.error;
+      if (budgetsRes.error) throw budgetsRes.error;
 
       setTransactions(transactionsRes.data as Transaction[] || []);
       setCategories(categoriesRes.data as Category[] || []);
       setClients(clientsRes.data || []);
+      setAccounts(accountsRes.data as Account[] || []);
+      setBudgets(budgetsRes.data || []);
     } catch (error) {
       console.error("Erro ao carregar dados:", error);
       toast({
@@ -121,7 +210,9 @@ export default function CashFlow() {
         amount: parseFloat(formData.amount),
         client_id: formData.client_id || null,
         category_id: formData.category_id || null,
+        account_id: formData.account_id || null,
       };
+      const budgetAlert = getBudgetAlert(transactionData);
 
       if (editingTransaction) {
         const { error } = await supabase
@@ -148,6 +239,14 @@ export default function CashFlow() {
         });
       }
       
+      if (budgetAlert) {
+        toast({
+          title: budgetAlert.title,
+          description: budgetAlert.description,
+          variant: budgetAlert.level === "exceeded" ? "destructive" : "default",
+        });
+      }
+
       setIsDialogOpen(false);
       setEditingTransaction(null);
       setFormData({
@@ -156,6 +255,7 @@ export default function CashFlow() {
         description: "",
         category_id: "",
         client_id: "",
+        account_id: defaultAccountId,
         transaction_date: format(new Date(), "yyyy-MM-dd"),
       });
       fetchData();
@@ -169,27 +269,71 @@ export default function CashFlow() {
     }
   };
 
+  // Aviso quando a despesa faz a categoria cruzar 80% ou 100% do orçamento do mês
+  const getBudgetAlert = (data: { type: string; amount: number; category_id: string | null; transaction_date: string }) => {
+    if (data.type !== "expense" || !data.category_id) return null;
+
+    const month = toBudgetMonth(data.transaction_date);
+    const budget = getBudgetAmount(budgets, data.category_id, month);
+    if (budget === null) return null;
+
+    const spentBefore = getCategorySpent(transactions, data.category_id, month);
+    const spentAfter = getCategorySpent(
+      transactions.filter(t => t.id !== editingTransaction?.id),
+      data.category_id,
+      month,
+    ) + data.amount;
+    const level = getCrossedBudgetLevel(spentBefore, spentAfter, budget);
+    if (!level) return null;
+
+    const categoryName = categories.find(category => category.id === data.category_id)?.name;
+    return {
+      level,
+      title: level === "exceeded" ? "Orçamento estourado" : "Orçamento quase no limite",
+      description: `${categoryName}: ${formatCurrency(spentAfter)} de ${formatCurrency(budget)} em ${format(parseISO(month), "MMMM", { locale: ptBR })}`,
+    };
+  };
+
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
     setFormData({
-      type: transaction.type,
+      type: transaction.type as "income" | "expense",
       amount: transaction.amount.toString(),
       description: transaction.description,
       category_id: transaction.category_id || "",
       client_id: transaction.client_id || "",
+      account_id: transaction.account_id || "",
       transaction_date: transaction.transaction_date,
     });
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (transaction: Transaction) => {
+    if (transaction.transfer_id) {
+      await handleDeleteTransfer(transaction.transfer_id);
+      return;
+    }
+
     if (!confirm("Tem certeza que deseja excluir esta transação?")) return;
     
     try {
+      // Ocorrência recorrente excluída é marcada como pulada para não ser gerada de novo
+      if (transaction.recurring_id && transaction.occurrence_date) {
+        const { error: overrideError } = await supabase
+          .from("recurring_transaction_overrides")
+          .upsert({
+            recurring_id: transaction.recurring_id,
+            occurrence_date: transaction.occurrence_date,
+            skipped: true,
+          }, { onConflict: "recurring_id,occurrence_date" });
+
+        if (overrideError) throw overrideError;
+      }
+
       const { error } = await supabase
         .from("transactions")
         .delete()
-        .eq("id", id);
+        .eq("id", transaction.id);
       
       if (error) throw error;
       
@@ -208,6 +352,33 @@ export default function CashFlow() {
     }
   };
 
+  // Os dois lados da transferência são excluídos juntos
+  const handleDeleteTransfer = async (transferId: string) => {
+    if (!confirm("Excluir esta transferência das duas contas?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("transactions")
+        .delete()
+        .eq("transfer_id", transferId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Transferência excluída com sucesso",
+      });
+      fetchData();
+    } catch (error) {
+      console.error("Erro ao excluir transferência:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("pt-BR", {
       style: "currency",
@@ -215,22 +386,27 @@ export default function CashFlow() {
     }).format(value);
   };
 
-  const filteredTransactions = transactions.filter(transaction => 
-    filter === "all" || transaction.type === filter
+  const filteredTransactions = transactions.filter(transaction =>
+    (filter === "all" || (filter === "transfer" ? isTransfer(transaction.type) : transaction.type === filter)) &&
+    (accountFilter === "all" || transaction.account_id === accountFilter)
   );
 
-  const totalIncome = transactions
-    .filter(t => t.type === "income")
-    .reduce((sum, t) => sum + t.amount, 0);
+  const accountBalances = accounts
+    .filter(account => !account.archived || transactions.some(t => t.account_id === account.id))
+    .map(account => ({ account, balance: getAccountBalance(account, transactions) }));
 
-  const totalExpense = transactions
-    .filter(t => t.type === "expense")
-    .reduce((sum, t) => sum + t.amount, 0);
+  // Lançamentos feitos enquanto o usuário ainda não tinha conta padrão
+  const unassignedTransactions = transactions.filter(t => !t.account_id);
+  const unassignedBalance = unassignedTransactions
+    .reduce((sum, t) => sum + (isInflow(t.type) ? t.amount : -t.amount), 0);
 
-  const balance = totalIncome - totalExpense;
+  const balance = accountBalances.reduce((sum, item) => sum + item.balance, 0) + unassignedBalance;
 
   const getAvailableCategories = () => {
-    return categories.filter(cat => cat.type === formData.type);
+    // Arquivadas só aparecem quando já estão na transação em edição
+    return categories.filter(cat =>
+      cat.type === formData.type && (!cat.archived || cat.id === formData.category_id)
+    );
   };
 
   return (
@@ -242,291 +418,508 @@ export default function CashFlow() {
             Gerencie suas receitas e despesas
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button 
-              className="bg-gradient-primary hover:opacity-90 transition-opacity"
-              onClick={() => {
-                setEditingTransaction(null);
-                setFormData({
-                  type: "income",
-                  amount: "",
-                  description: "",
-                  category_id: "",
-                  client_id: "",
-                  transaction_date: format(new Date(), "yyyy-MM-dd"),
-                });
-              }}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Nova Transação
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingTransaction ? "Editar Transação" : "Nova Transação"}
-              </DialogTitle>
-              <DialogDescription>
-                {editingTransaction 
-                  ? "Atualize os dados da transação" 
-                  : "Registre uma nova entrada ou saída"
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit}>
-              <div className="grid gap-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="type">Tipo *</Label>
-                  <Select
-                    value={formData.type}
-                    onValueChange={(value) => setFormData({ ...formData, type: value as "income" | "expense", category_id: "" })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="income">Receita</SelectItem>
-                      <SelectItem value="expense">Despesa</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="amount">Valor *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Descrição *</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="category">Categoria</Label>
-                  <Select
-                    value={formData.category_id}
-                    onValueChange={(value) => setFormData({ ...formData, category_id: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione uma categoria" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getAvailableCategories().map((category) => (
-                        <SelectItem key={category.id} value={category.id}>
-                          {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setIsCategoryManagerOpen(true)}>
+            <Tags className="h-4 w-4 mr-2" />
+            Categorias
+          </Button>
+          <Button variant="outline" onClick={() => setIsAccountManagerOpen(true)}>
+            <Wallet className="h-4 w-4 mr-2" />
+            Contas
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar extrato
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsTransferOpen(true)}
+            disabled={accounts.filter(account => !account.archived).length < 2}
+          >
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Transferir
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button 
+                className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                onClick={() => {
+                  setEditingTransaction(null);
+                  setFormData({
+                    type: "income",
+                    amount: "",
+                    description: "",
+                    category_id: "",
+                    client_id: "",
+                    account_id: defaultAccountId,
+                    transaction_date: format(new Date(), "yyyy-MM-dd"),
+                  });
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Transação
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingTransaction ? "Editar Transação" : "Nova Transação"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingTransaction 
+                    ? "Atualize os dados da transação" 
+                    : "Registre uma nova entrada ou saída"
+                  }
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit}>
+                <div className="grid gap-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Tipo *</Label>
+                    <Select
+                      value={formData.type}
+                      onValueChange={(value) => setFormData({ ...formData, type: value as "income" | "expense", category_id: "" })}
+                      disabled={editingTransaction?.reconciled}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="income">Receita</SelectItem>
+                        <SelectItem value="expense">Despesa</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Valor *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      disabled={editingTransaction?.reconciled}
+                      required
+                    />
+                    {editingTransaction?.reconciled && (
+                      <p className="text-xs text-muted-foreground">
+                        Desfaça a conciliação para alterar o tipo ou o valor
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Descrição *</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Categoria</Label>
+                    <Select
+                      value={formData.category_id}
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione uma categoria" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getAvailableCategories().map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="client">Cliente</Label>
+                    <Select
+                      value={formData.client_id}
+                      onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um cliente" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clients
+                          .filter(client => !client.archived || client.id === formData.client_id)
+                          .map((client) => (
+                            <SelectItem key={client.id} value={client.id}>
+                              {client.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="account">Conta</Label>
+                    <Select
+                      value={formData.account_id}
+                      onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                    >
+                      <SelectTrigger id="account">
+                        <SelectValue placeholder="Conta padrão" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts
+                          .filter(account => !account.archived || account.id === formData.account_id)
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Data *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.transaction_date}
+                      onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                      required
+                    />
+                  </div>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="client">Cliente</Label>
-                  <Select
-                    value={formData.client_id}
-                    onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+                <DialogFooter>
+                  <Button 
+                    type="submit"
+                    className="bg-gradient-primary hover:opacity-90 transition-opacity"
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione um cliente" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {clients.map((client) => (
-                        <SelectItem key={client.id} value={client.id}>
-                          {client.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="date">Data *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.transaction_date}
-                    onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <Button 
-                  type="submit"
-                  className="bg-gradient-primary hover:opacity-90 transition-opacity"
-                >
-                  {editingTransaction ? "Atualizar" : "Registrar"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                    {editingTransaction ? "Atualizar" : "Registrar"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {/* Resumo Financeiro */}
-      <div className="grid gap-4 md:grid-cols-3">
-        <Card className="shadow-md">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total de Receitas</CardTitle>
-            <TrendingUp className="h-4 w-4 text-success" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-success">
-              {formatCurrency(totalIncome)}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Saldos por conta */}
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
+        {accountBalances.map(({ account, balance: accountBalance }) => (
+          <Card
+            key={account.id}
+            className={`shadow-md cursor-pointer hover:shadow-lg transition-shadow ${accountFilter === account.id ? "ring-2 ring-primary" : ""}`}
+            onClick={() => setAccountFilter(accountFilter === account.id ? "all" : account.id)}
+          >
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{account.name}</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${accountBalance >= 0 ? "text-success" : "text-destructive"}`}>
+                {formatCurrency(accountBalance)}
+              </div>
+              <p className="text-xs text-muted-foreground">{accountKindLabels[account.kind]}</p>
+            </CardContent>
+          </Card>
+        ))}
 
-        <Card className="shadow-md">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total de Despesas</CardTitle>
-            <TrendingDown className="h-4 w-4 text-destructive" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-destructive">
-              {formatCurrency(totalExpense)}
-            </div>
-          </CardContent>
-        </Card>
+        {unassignedTransactions.length > 0 && (
+          <Card className="shadow-md">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Sem conta</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${unassignedBalance >= 0 ? "text-success" : "text-destructive"}`}>
+                {formatCurrency(unassignedBalance)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <button type="button" className="underline" onClick={() => setIsAccountManagerOpen(true)}>
+                  Cadastre uma conta
+                </button>{" "}
+                para organizar os lançamentos
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
         <Card className="bg-gradient-card shadow-md">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Saldo Total</CardTitle>
             <Badge variant={balance >= 0 ? "default" : "destructive"}>
-              {balance >= 0 ? "Lucro" : "Prejuízo"}
+              {balance >= 0 ? "Positivo" : "Negativo"}
             </Badge>
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${balance >= 0 ? "text-success" : "text-destructive"}`}>
               {formatCurrency(balance)}
             </div>
+            <p className="text-xs text-muted-foreground">Soma de todas as contas</p>
           </CardContent>
         </Card>
       </div>
 
-      {/* Filtros */}
-      <div className="flex items-center space-x-2">
-        <Filter className="h-4 w-4 text-muted-foreground" />
-        <Select value={filter} onValueChange={(value) => setFilter(value as "all" | "income" | "expense")}>
-          <SelectTrigger className="w-40">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Todas</SelectItem>
-            <SelectItem value="income">Receitas</SelectItem>
-            <SelectItem value="expense">Despesas</SelectItem>
-          </SelectContent>
-        </Select>
-        <Badge variant="secondary">
-          {filteredTransactions.length} {filteredTransactions.length === 1 ? "transação" : "transações"}
-        </Badge>
-      </div>
+      <RecurringTransactions categories={categories} onChange={fetchData} />
 
-      {/* Lista de Transações */}
-      {loading ? (
-        <div className="space-y-4">
-          {[...Array(5)].map((_, i) => (
-            <Card key={i} className="animate-pulse">
-              <CardContent className="p-4">
-                <div className="flex justify-between items-center">
-                  <div className="space-y-2">
-                    <div className="h-4 bg-muted rounded w-1/4"></div>
-                    <div className="h-3 bg-muted rounded w-1/2"></div>
-                  </div>
-                  <div className="h-6 bg-muted rounded w-20"></div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      ) : (
-        <div className="space-y-4">
-          {filteredTransactions.map((transaction) => (
-            <Card key={transaction.id} className="shadow-md hover:shadow-lg transition-shadow">
-              <CardContent className="p-4">
-                <div className="flex justify-between items-center">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <Badge variant={transaction.type === "income" ? "default" : "destructive"}>
-                        {transaction.type === "income" ? "Receita" : "Despesa"}
-                      </Badge>
-                      {transaction.categories && (
-                        <Badge 
-                          variant="secondary" 
-                          style={{ backgroundColor: transaction.categories.color + "20", color: transaction.categories.color }}
-                        >
-                          {transaction.categories.name}
-                        </Badge>
-                      )}
-                      {transaction.clients && (
-                        <Badge variant="outline">
-                          {transaction.clients.name}
-                        </Badge>
-                      )}
-                    </div>
-                    <h3 className="font-semibold">{transaction.description}</h3>
-                    <div className="flex items-center space-x-2 text-sm text-muted-foreground mt-1">
-                      <Calendar className="h-3 w-3" />
-                      <span>
-                        {format(parseISO(transaction.transaction_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
-                      </span>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className={`text-lg font-bold ${transaction.type === "income" ? "text-success" : "text-destructive"}`}>
-                      {transaction.type === "income" ? "+" : "-"}{formatCurrency(transaction.amount)}
+      <Tabs defaultValue="transactions">
+        <TabsList>
+          <TabsTrigger value="transactions">Lançamentos</TabsTrigger>
+          <TabsTrigger value="reconciliation">Conciliação</TabsTrigger>
+          {accounts.some(account => account.kind === "card") && (
+            <TabsTrigger value="invoices">Faturas</TabsTrigger>
+          )}
+        </TabsList>
+
+        <TabsContent value="transactions" className="space-y-6">
+          <BudgetOverview
+            items={getBudgetProgress(
+              categories.filter(category => category.type === "expense"),
+              budgets,
+              transactions,
+              toBudgetMonth(new Date()),
+            )}
+            month={new Date()}
+            onManage={() => setIsBudgetManagerOpen(true)}
+          />
+
+          {/* Filtros */}
+          <div className="flex items-center space-x-2">
+            <Filter className="h-4 w-4 text-muted-foreground" />
+            <Select value={filter} onValueChange={(value) => setFilter(value as "all" | "income" | "expense" | "transfer")}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                <SelectItem value="income">Receitas</SelectItem>
+                <SelectItem value="expense">Despesas</SelectItem>
+                <SelectItem value="transfer">Transferências</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={accountFilter} onValueChange={setAccountFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as contas</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Badge variant="secondary">
+              {filteredTransactions.length} {filteredTransactions.length === 1 ? "transação" : "transações"}
+            </Badge>
+          </div>
+
+          {/* Lista de Transações */}
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-4">
+                    <div className="flex justify-between items-center">
+                      <div className="space-y-2">
+                        <div className="h-4 bg-muted rounded w-1/4"></div>
+                        <div className="h-3 bg-muted rounded w-1/2"></div>
+                      </div>
+                      <div className="h-6 bg-muted rounded w-20"></div>
                     </div>
-                    <div className="flex space-x-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleEdit(transaction)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDelete(transaction.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {filteredTransactions.map((transaction) => (
+                <Card
+                  key={transaction.id}
+                  id={`transaction-${transaction.id}`}
+                  className={`shadow-md hover:shadow-lg transition-shadow ${transaction.id === highlightedId ? "ring-2 ring-primary" : ""}`}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex justify-between items-center">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2 mb-2">
+                          {isTransfer(transaction.type) ? (
+                            <Badge variant="secondary">
+                              <ArrowLeftRight className="h-3 w-3 mr-1" />
+                              Transferência
+                            </Badge>
+                          ) : (
+                            <Badge variant={transaction.type === "income" ? "default" : "destructive"}>
+                              {transaction.type === "income" ? "Receita" : "Despesa"}
+                            </Badge>
+                          )}
+                          {transaction.accounts && (
+                            <Badge variant="outline">
+                              <Wallet className="h-3 w-3 mr-1" />
+                              {transaction.accounts.name}
+                            </Badge>
+                          )}
+                          {transaction.invoice_due_date && !isTransfer(transaction.type) && (
+                            <Badge variant="outline">
+                              <CreditCard className="h-3 w-3 mr-1" />
+                              Fatura {format(parseISO(transaction.invoice_due_date), "MM/yyyy")}
+                            </Badge>
+                          )}
+                          {transaction.categories && (
+                            <Badge 
+                              variant="secondary" 
+                              style={{ backgroundColor: transaction.categories.color + "20", color: transaction.categories.color }}
+                            >
+                              {transaction.categories.name}
+                            </Badge>
+                          )}
+                          {transaction.clients && (
+                            <Badge variant="outline">
+                              {transaction.clients.name}
+                            </Badge>
+                          )}
+                          {transaction.recurring_id && (
+                            <Badge variant="outline">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              Recorrente
+                            </Badge>
+                          )}
+                          {transaction.reconciled && (
+                            <Badge
+                              variant="outline"
+                              className="text-success"
+                              title={transaction.reconciled_at ? `Conciliada em ${format(parseISO(transaction.reconciled_at), "dd/MM/yyyy HH:mm")}` : undefined}
+                            >
+                              <CheckCheck className="h-3 w-3 mr-1" />
+                              Conciliada
+                            </Badge>
+                          )}
+                          {transaction.appointments && (
+                            <Link to={`/agenda?data=${format(parseISO(transaction.appointments.start_date), "yyyy-MM-dd")}`}>
+                              <Badge variant="outline" className="hover:bg-muted">
+                                <CalendarCheck className="h-3 w-3 mr-1" />
+                                {transaction.appointments.title}
+                              </Badge>
+                            </Link>
+                          )}
+                          {transaction.receivables?.appointments && (
+                            <Link to={`/agenda?data=${format(parseISO(transaction.receivables.appointments.start_date), "yyyy-MM-dd")}`}>
+                              <Badge variant="outline" className="hover:bg-muted">
+                                <CalendarCheck className="h-3 w-3 mr-1" />
+                                {transaction.receivables.appointments.title} · {transaction.receivables.description}
+                              </Badge>
+                            </Link>
+                          )}
+                        </div>
+                        <h3 className="font-semibold">{transaction.description}</h3>
+                        <div className="flex items-center space-x-2 text-sm text-muted-foreground mt-1">
+                          <Calendar className="h-3 w-3" />
+                          <span>
+                            {format(parseISO(transaction.transaction_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <div className={`text-lg font-bold ${isTransfer(transaction.type) ? "text-muted-foreground" : transaction.type === "income" ? "text-success" : "text-destructive"}`}>
+                          {isInflow(transaction.type) ? "+" : "-"}{formatCurrency(transaction.amount)}
+                        </div>
+                        <div className="flex space-x-1">
+                          {transaction.type === "income" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Baixar recibo"
+                              disabled={downloadingId === transaction.id}
+                              onClick={() => issueDocument({ transactionId: transaction.id })}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {!isTransfer(transaction.type) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEdit(transaction)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(transaction)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {!loading && filteredTransactions.length === 0 && (
+            <Card className="text-center py-12">
+              <CardContent>
+                <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Nenhuma transação encontrada</h3>
+                <p className="text-muted-foreground mb-4">
+                  Comece registrando sua primeira transação
+                </p>
+                <Button 
+                  onClick={() => setIsDialogOpen(true)}
+                  className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Registrar Transação
+                </Button>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          )}
+        </TabsContent>
 
-      {!loading && filteredTransactions.length === 0 && (
-        <Card className="text-center py-12">
-          <CardContent>
-            <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Nenhuma transação encontrada</h3>
-            <p className="text-muted-foreground mb-4">
-              Comece registrando sua primeira transação
-            </p>
-            <Button 
-              onClick={() => setIsDialogOpen(true)}
-              className="bg-gradient-primary hover:opacity-90 transition-opacity"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Registrar Transação
-            </Button>
-          </CardContent>
-        </Card>
-      )}
+        <TabsContent value="reconciliation">
+          <BankReconciliation transactions={transactions} accounts={accounts} onChange={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="invoices">
+          <CardInvoices transactions={transactions} accounts={accounts} onChange={fetchData} />
+        </TabsContent>
+      </Tabs>
+
+      <CategoryManager
+        open={isCategoryManagerOpen}
+        onOpenChange={setIsCategoryManagerOpen}
+        onChange={fetchData}
+      />
+
+      <BudgetManager
+        open={isBudgetManagerOpen}
+        onOpenChange={setIsBudgetManagerOpen}
+        onChange={fetchData}
+      />
+
+      <AccountManager
+        open={isAccountManagerOpen}
+        onOpenChange={setIsAccountManagerOpen}
+        onChange={fetchData}
+      />
+
+      <TransferDialog
+        open={isTransferOpen}
+        onOpenChange={setIsTransferOpen}
+        accounts={accounts}
+        onSave={fetchData}
+      />
+
+      <StatementImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        transactions={transactions}
+        categories={categories}
+        accounts={accounts}
+        onImported={fetchData}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,513 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { getClientStats } from "@/lib/clientStats";
+import { getServiceLineTotal, getServicesTotal } from "@/lib/appointmentServices";
+import { clientSegmentLabels, getClientSegments } from "@/lib/clientSegments";
+import {
+  ArrowLeft,
+  Phone,
+  Mail,
+  MapPin,
+  Calendar,
+  TrendingUp,
+  TrendingDown,
+  Wallet,
+  Receipt,
+  HandCoins,
+  CalendarCheck,
+  StickyNote,
+  Trash2,
+  Users,
+  Megaphone,
+} from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Client {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  tags: string[];
+  lead_source?: string;
+  archived: boolean;
+  created_at: string;
+}
+
+interface Appointment {
+  id: string;
+  title: string;
+  start_date: string;
+  status: string;
+  location?: string;
+  appointment_services: {
+    price: number | null;
+    quantity: number | null;
+    services: { name: string } | null;
+  }[];
+}
+
+interface Transaction {
+  id: string;
+  type: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  categories?: { name: string; color: string } | null;
+}
+
+interface Receivable {
+  amount: number;
+  due_date: string;
+  transactions: { amount: number }[];
+}
+
+interface ClientNote {
+  id: string;
+  body: string;
+  created_at: string;
+}
+
+type TimelineItem =
+  | { kind: "appointment"; date: string; appointment: Appointment }
+  | { kind: "transaction"; date: string; transaction: Transaction };
+
+const statusLabels: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  scheduled: { label: "Agendado", variant: "outline" },
+  completed: { label: "Concluído", variant: "default" },
+  cancelled: { label: "Cancelado", variant: "destructive" },
+};
+
+export default function ClientDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [client, setClient] = useState<Client | null>(null);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [notes, setNotes] = useState<ClientNote[]>([]);
+  const [newNote, setNewNote] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (id) fetchData(id);
+  }, [id]);
+
+  const fetchData = async (clientId: string) => {
+    setLoading(true);
+    try {
+      const [clientRes, appointmentsRes, transactionsRes, receivablesRes, notesRes] = await Promise.all([
+        supabase
+          .from("clients")
+          .select("*")
+          .eq("id", clientId)
+          .maybeSingle(),
+        supabase
+          .from("appointments")
+          .select(`
+            id, title, start_date, status, location,
+            appointment_services (price, quantity, services (name))
+          `)
+          .eq("client_id", clientId)
+          .order("start_date", { ascending: false }),
+        supabase
+          .from("transactions")
+          .select("id, type, amount, description, transaction_date, categories (name, color)")
+          .eq("client_id", clientId)
+          .order("transaction_date", { ascending: false }),
+        supabase
+          .from("receivables")
+          .select("amount, due_date, transactions (amount)")
+          .eq("client_id", clientId),
+        supabase
+          .from("client_notes")
+          .select("id, body, created_at")
+          .eq("client_id", clientId)
+          .order("created_at", { ascending: false })
+      ]);
+
+      if (clientRes.error) throw clientRes.error;
+      if (appointmentsRes.error) throw appointmentsRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      if (receivablesRes.error) throw receivablesRes.error;
+      if (notesRes.error) throw notesRes.error;
+
+      setClient(clientRes.data);
+      setAppointments(appointmentsRes.data as Appointment[] || []);
+      setTransactions(transactionsRes.data as Transaction[] || []);
+      setReceivables(receivablesRes.data || []);
+      setNotes(notesRes.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar cliente:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar cliente",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !newNote.trim()) return;
+    setSavingNote(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("client_notes")
+        .insert([{ client_id: id, body: newNote.trim() }])
+        .select("id, body, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setNotes([data, ...notes]);
+      setNewNote("");
+    } catch (error) {
+      console.error("Erro ao salvar anotação:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar anotação",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta anotação?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("client_notes")
+        .delete()
+        .eq("id", noteId);
+
+      if (error) throw error;
+
+      setNotes(notes.filter(note => note.id !== noteId));
+    } catch (error) {
+      console.error("Erro ao excluir anotação:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir anotação",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const getAppointmentTotal = (appointment: Appointment) => getServicesTotal(appointment.appointment_services);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-1/3 animate-pulse"></div>
+        <div className="grid gap-6 md:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="space-y-0 pb-2">
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+                <div className="h-8 bg-muted rounded w-1/2 mt-2"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <Card className="text-center py-12">
+        <CardContent>
+          <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Cliente não encontrado</h3>
+          <Button asChild variant="outline">
+            <Link to="/clientes">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar para clientes
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const stats = getClientStats(transactions, appointments, receivables);
+  const segments = getClientSegments(stats);
+
+  // Compromissos e lançamentos em uma única linha do tempo, do mais recente ao mais antigo
+  const timeline: TimelineItem[] = [
+    ...appointments.map(appointment => ({
+      kind: "appointment" as const,
+      date: appointment.start_date,
+      appointment,
+    })),
+    ...transactions.map(transaction => ({
+      kind: "transaction" as const,
+      date: transaction.transaction_date,
+      transaction,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <Button asChild variant="ghost" size="icon">
+          <Link to="/clientes">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            {client.name}
+            {client.archived && <Badge variant="outline">Arquivado</Badge>}
+          </h1>
+          <p className="text-muted-foreground">
+            Cliente desde {format(parseISO(client.created_at), "MMMM 'de' yyyy", { locale: ptBR })}
+          </p>
+          {(client.tags.length > 0 || segments.length > 0) && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {client.tags.map((tag) => (
+                <Badge key={tag} variant="secondary">{tag}</Badge>
+              ))}
+              {segments.map((segment) => (
+                <Badge key={segment} variant="outline">{clientSegmentLabels[segment]}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Valor Total</CardTitle>
+            <Wallet className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">{formatCurrency(stats.lifetimeValue)}</div>
+            <p className="text-xs text-muted-foreground">Recebido deste cliente</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Ticket Médio</CardTitle>
+            <Receipt className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(stats.averageTicket)}</div>
+            <p className="text-xs text-muted-foreground">Por ensaio realizado</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Último Ensaio</CardTitle>
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {stats.lastShootDate ? format(parseISO(stats.lastShootDate), "dd/MM/yyyy") : "—"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {appointments.length} {appointments.length === 1 ? "compromisso" : "compromissos"} na agenda
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Em Aberto</CardTitle>
+            <HandCoins className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-primary">{formatCurrency(stats.outstanding)}</div>
+            <p className="text-xs text-muted-foreground">
+              <Link to="/receber" className="hover:underline">Parcelas ainda não quitadas</Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Contato</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {client.email && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <a href={`mailto:${client.email}`} className="hover:underline">{client.email}</a>
+                </div>
+              )}
+              {client.phone && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  <a href={`tel:${client.phone}`} className="hover:underline">{client.phone}</a>
+                </div>
+              )}
+              {client.address && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <span>{client.address}</span>
+                </div>
+              )}
+              {client.lead_source && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <Megaphone className="h-4 w-4 text-muted-foreground" />
+                  <span>Chegou por {client.lead_source}</span>
+                </div>
+              )}
+              {!client.email && !client.phone && !client.address && (
+                <p className="text-sm text-muted-foreground">Nenhum contato cadastrado</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <StickyNote className="h-5 w-5 mr-2" />
+                Anotações
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleAddNote} className="space-y-2">
+                <Textarea
+                  value={newNote}
+                  onChange={(e) => setNewNote(e.target.value)}
+                  placeholder="Preferências, combinados, lembretes..."
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    size="sm"
+                    disabled={savingNote || !newNote.trim()}
+                    className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                  >
+                    {savingNote ? "Salvando..." : "Adicionar"}
+                  </Button>
+                </div>
+              </form>
+              {notes.map((note) => (
+                <div key={note.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs text-muted-foreground">
+                      {format(parseISO(note.created_at), "dd/MM/yyyy 'às' HH:mm")}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteNote(note.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                </div>
+              ))}
+              {notes.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center">Nenhuma anotação ainda</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="shadow-md lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Histórico</CardTitle>
+            <CardDescription>Compromissos e lançamentos do cliente</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nenhum compromisso ou lançamento para este cliente
+              </p>
+            )}
+            <div className="space-y-4">
+              {timeline.map((item) => item.kind === "appointment" ? (
+                <div key={`appointment-${item.appointment.id}`} className="flex space-x-3">
+                  <CalendarCheck className="h-5 w-5 mt-0.5 text-primary shrink-0" />
+                  <div className="flex-1 rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <Link
+                        to={`/agenda?data=${format(parseISO(item.appointment.start_date), "yyyy-MM-dd")}`}
+                        className="font-medium hover:underline"
+                      >
+                        {item.appointment.title}
+                      </Link>
+                      <Badge variant={statusLabels[item.appointment.status]?.variant ?? "outline"}>
+                        {statusLabels[item.appointment.status]?.label ?? item.appointment.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(item.appointment.start_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      {item.appointment.location && ` · ${item.appointment.location}`}
+                    </p>
+                    {item.appointment.appointment_services.length > 0 && (
+                      <div className="mt-2 space-y-1 text-sm">
+                        {item.appointment.appointment_services.map((service, i) => (
+                          <div key={i} className="flex justify-between">
+                            <span>
+                              {service.quantity ?? 1}x {service.services?.name ?? "Serviço"}
+                            </span>
+                            <span>{formatCurrency(getServiceLineTotal(service))}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between border-t pt-1 font-medium">
+                          <span>Total</span>
+                          <span>{formatCurrency(getAppointmentTotal(item.appointment))}</span>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div key={`transaction-${item.transaction.id}`} className="flex space-x-3">
+                  {item.transaction.type === "income"
+                    ? <TrendingUp className="h-5 w-5 mt-0.5 text-success shrink-0" />
+                    : <TrendingDown className="h-5 w-5 mt-0.5 text-destructive shrink-0" />}
+                  <div className="flex-1 flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <Link to={`/caixa?transacao=${item.transaction.id}`} className="font-medium hover:underline">
+                        {item.transaction.description}
+                      </Link>
+                      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                        <span>{format(parseISO(item.transaction.transaction_date), "dd/MM/yyyy")}</span>
+                        {item.transaction.categories && (
+                          <Badge
+                            variant="secondary"
+                            style={{ backgroundColor: item.transaction.categories.color + "20", color: item.transaction.categories.color }}
+                          >
+                            {item.transaction.categories.name}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <span className={`font-bold ${item.transaction.type === "income" ? "text-success" : "text-destructive"}`}>
+                      {item.transaction.type === "income" ? "+" : "-"}{formatCurrency(Number(item.transaction.amount))}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
@@ -14,9 +14,23 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
-import { Plus, Search, Edit, Trash2, Phone, Mail, MapPin, FileText, Users } from "lucide-react";
+import { ClientDeleteDialog } from "@/components/ClientDeleteDialog";
+import { ClientDuplicatesDialog } from "@/components/ClientDuplicatesDialog";
+import { ClientImportDialog } from "@/components/ClientImportDialog";
+import { ClientTagsInput } from "@/components/ClientTagsInput";
+import { findDuplicateClients } from "@/lib/clientDuplicates";
+import { ClientStats, getClientStats } from "@/lib/clientStats";
+import { ClientSegment, clientSegmentLabels, getClientSegments, leadSources } from "@/lib/clientSegments";
+import { Plus, Search, Edit, Trash2, Phone, Mail, MapPin, Users, ArchiveRestore, CopyCheck, Upload, Megaphone } from "lucide-react";
 
 interface Client {
   id: string;
@@ -24,23 +38,45 @@ interface Client {
   email?: string;
   phone?: string;
   address?: string;
-  notes?: string;
+  tags: string[];
+  lead_source?: string;
+  archived: boolean;
   created_at: string;
 }
 
+const emptyFormData = {
+  name: "",
+  email: "",
+  phone: "",
+  address: "",
+  tags: [] as string[],
+  lead_source: "",
+};
+
+const clientSegments = Object.keys(clientSegmentLabels) as ClientSegment[];
+
+// Agrupa linhas do histórico pelo cliente a que pertencem
+const groupByClient = <T extends { client_id: string | null }>(rows: T[]) =>
+  rows.reduce<Record<string, T[]>>((groups, row) => {
+    if (row.client_id) groups[row.client_id] = [...(groups[row.client_id] || []), row];
+    return groups;
+  }, {});
+
 export default function Clients() {
+  const navigate = useNavigate();
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    email: "",
-    phone: "",
-    address: "",
-    notes: "",
-  });
+  const [deletingClient, setDeletingClient] = useState<Client | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [clientStats, setClientStats] = useState<Record<string, ClientStats>>({});
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [segmentFilter, setSegmentFilter] = useState<ClientSegment | "all">("all");
+  const [formData, setFormData] = useState(emptyFormData);
 
   useEffect(() => {
     fetchClients();
@@ -48,13 +84,43 @@ export default function Clients() {
 
   const fetchClients = async () => {
     try {
-      const { data, error } = await supabase
-        .from("clients")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [clientsRes, appointmentsRes, transactionsRes, receivablesRes] = await Promise.all([
+        supabase
+          .from("clients")
+          .select("*")
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("appointments")
+          .select("client_id, start_date, status")
+          .not("client_id", "is", null),
+        supabase
+          .from("transactions")
+          .select("client_id, type, amount")
+          .not("client_id", "is", null),
+        supabase
+          .from("receivables")
+          .select("client_id, amount, due_date, transactions (amount)")
+          .not("client_id", "is", null)
+      ]);
 
-      if (error) throw error;
-      setClients(data || []);
+      if (clientsRes.error) throw clientsRes.error;
+      if (appointmentsRes.error) throw appointmentsRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      if (receivablesRes.error) throw receivablesRes.error;
+
+      const appointmentsByClient = groupByClient(appointmentsRes.data || []);
+      const transactionsByClient = groupByClient(transactionsRes.data || []);
+      const receivablesByClient = groupByClient(receivablesRes.data || []);
+
+      setClients(clientsRes.data || []);
+      setClientStats(Object.fromEntries((clientsRes.data || []).map(client => [
+        client.id,
+        getClientStats(
+          transactionsByClient[client.id] || [],
+          appointmentsByClient[client.id] || [],
+          receivablesByClient[client.id] || [],
+        ),
+      ])));
     } catch (error) {
       console.error("Erro ao carregar clientes:", error);
       toast({
@@ -69,12 +135,13 @@ export default function Clients() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const clientData = { ...formData, lead_source: formData.lead_source || null };
     
     try {
       if (editingClient) {
         const { error } = await supabase
           .from("clients")
-          .update(formData)
+          .update(clientData)
           .eq("id", editingClient.id);
         
         if (error) throw error;
@@ -86,7 +153,7 @@ export default function Clients() {
       } else {
         const { error } = await supabase
           .from("clients")
-          .insert([formData]);
+          .insert([clientData]);
         
         if (error) throw error;
         
@@ -98,7 +165,7 @@ export default function Clients() {
       
       setIsDialogOpen(false);
       setEditingClient(null);
-      setFormData({ name: "", email: "", phone: "", address: "", notes: "" });
+      setFormData(emptyFormData);
       fetchClients();
     } catch (error) {
       console.error("Erro ao salvar cliente:", error);
@@ -117,41 +184,60 @@ export default function Clients() {
       email: client.email || "",
       phone: client.phone || "",
       address: client.address || "",
-      notes: client.notes || "",
+      tags: client.tags,
+      lead_source: client.lead_source || "",
     });
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Tem certeza que deseja excluir este cliente?")) return;
-    
+  const handleRestore = async (client: Client) => {
     try {
       const { error } = await supabase
         .from("clients")
-        .delete()
-        .eq("id", id);
-      
+        .update({ archived: false })
+        .eq("id", client.id);
+
       if (error) throw error;
-      
+
       toast({
         title: "Sucesso",
-        description: "Cliente excluído com sucesso",
+        description: "Cliente reativado",
       });
       fetchClients();
     } catch (error) {
-      console.error("Erro ao excluir cliente:", error);
+      console.error("Erro ao reativar cliente:", error);
       toast({
         title: "Erro",
-        description: "Falha ao excluir cliente",
+        description: "Falha ao reativar cliente",
         variant: "destructive",
       });
     }
   };
 
+  const archivedCount = clients.filter(client => client.archived).length;
+  const duplicateCount = useMemo(() => findDuplicateClients(clients).length, [clients]);
+
+  const allTags = [...new Set(clients.flatMap(client => client.tags))].sort();
+
+  const getSegments = (client: Client) =>
+    clientStats[client.id] ? getClientSegments(clientStats[client.id]) : [];
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(tagFilter.includes(tag) ? tagFilter.filter(other => other !== tag) : [...tagFilter, tag]);
+  };
+
+  const isFiltering = !!searchTerm || tagFilter.length > 0 || segmentFilter !== "all";
+
   const filteredClients = clients.filter(client =>
-    client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.phone?.includes(searchTerm)
+    (showArchived || !client.archived) && (
+      client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      client.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      client.phone?.includes(searchTerm) ||
+      client.lead_source?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      client.tags.some(tag => tag.includes(searchTerm.toLowerCase()))
+    ) &&
+    tagFilter.every(tag => client.tags.includes(tag)) &&
+    (segmentFilter === "all" || getSegments(client).includes(segmentFilter))
   );
 
   return (
@@ -163,88 +249,120 @@ export default function Clients() {
             Gerencie sua base de clientes
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button 
-              className="bg-gradient-primary hover:opacity-90 transition-opacity"
-              onClick={() => {
-                setEditingClient(null);
-                setFormData({ name: "", email: "", phone: "", address: "", notes: "" });
-              }}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Cliente
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingClient ? "Editar Cliente" : "Novo Cliente"}
-              </DialogTitle>
-              <DialogDescription>
-                {editingClient 
-                  ? "Atualize as informações do cliente" 
-                  : "Cadastre um novo cliente no sistema"
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit}>
-              <div className="grid gap-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Nome *</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={formData.email}
-                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="phone">Telefone</Label>
-                  <Input
-                    id="phone"
-                    value={formData.phone}
-                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="address">Endereço</Label>
-                  <Input
-                    id="address"
-                    value={formData.address}
-                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Observações</Label>
-                  <Textarea
-                    id="notes"
-                    value={formData.notes}
-                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                    placeholder="Informações adicionais sobre o cliente..."
-                  />
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar
+          </Button>
+          <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+            <CopyCheck className="h-4 w-4 mr-2" />
+            Duplicados
+            {duplicateCount > 0 && (
+              <Badge variant="secondary" className="ml-2">{duplicateCount}</Badge>
+            )}
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button 
+                className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                onClick={() => {
+                  setEditingClient(null);
+                  setFormData(emptyFormData);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Cliente
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingClient ? "Editar Cliente" : "Novo Cliente"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingClient 
+                    ? "Atualize as informações do cliente" 
+                    : "Cadastre um novo cliente no sistema"
+                  }
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit}>
+                <div className="grid gap-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nome *</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Telefone</Label>
+                    <Input
+                      id="phone"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="address">Endereço</Label>
+                    <Input
+                      id="address"
+                      value={formData.address}
+                      onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lead_source">Origem</Label>
+                    <Select
+                      value={formData.lead_source || "none"}
+                      onValueChange={(value) => setFormData({ ...formData, lead_source: value === "none" ? "" : value })}
+                    >
+                      <SelectTrigger id="lead_source">
+                        <SelectValue placeholder="Como chegou até você" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Não informada</SelectItem>
+                        {[...new Set([...leadSources, ...(formData.lead_source ? [formData.lead_source] : [])])].map((source) => (
+                          <SelectItem key={source} value={source}>
+                            {source}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tags">Etiquetas</Label>
+                    <ClientTagsInput
+                      id="tags"
+                      value={formData.tags}
+                      onChange={(tags) => setFormData({ ...formData, tags })}
+                      suggestions={allTags}
+                    />
+                  </div>
                 </div>
-              </div>
-              <DialogFooter>
-                <Button 
-                  type="submit"
-                  className="bg-gradient-primary hover:opacity-90 transition-opacity"
-                >
-                  {editingClient ? "Atualizar" : "Cadastrar"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button 
+                    type="submit"
+                    className="bg-gradient-primary hover:opacity-90 transition-opacity"
+                  >
+                    {editingClient ? "Atualizar" : "Cadastrar"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="flex items-center space-x-2">
@@ -258,6 +376,50 @@ export default function Clients() {
         <Badge variant="secondary">
           {filteredClients.length} {filteredClients.length === 1 ? "cliente" : "clientes"}
         </Badge>
+        {archivedCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setShowArchived(!showArchived)}>
+            {showArchived ? "Ocultar arquivados" : `Mostrar arquivados (${archivedCount})`}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={segmentFilter} onValueChange={(value) => setSegmentFilter(value as ClientSegment | "all")}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os segmentos</SelectItem>
+            {clientSegments.map((segment) => (
+              <SelectItem key={segment} value={segment}>
+                {clientSegmentLabels[segment]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {allTags.map((tag) => (
+          <Badge
+            key={tag}
+            variant={tagFilter.includes(tag) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleTagFilter(tag)}
+          >
+            {tag}
+          </Badge>
+        ))}
+        {isFiltering && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSearchTerm("");
+              setTagFilter([]);
+              setSegmentFilter("all");
+            }}
+          >
+            Limpar filtros
+          </Button>
+        )}
       </div>
 
       {loading ? (
@@ -280,11 +442,18 @@ export default function Clients() {
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {filteredClients.map((client) => (
-            <Card key={client.id} className="shadow-md hover:shadow-lg transition-shadow">
+            <Card
+              key={client.id}
+              className={`shadow-md hover:shadow-lg transition-shadow cursor-pointer ${client.archived ? "opacity-60" : ""}`}
+              onClick={() => navigate(`/clientes/${client.id}`)}
+            >
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">{client.name}</CardTitle>
-                  <div className="flex space-x-1">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    {client.name}
+                    {client.archived && <Badge variant="outline">Arquivado</Badge>}
+                  </CardTitle>
+                  <div className="flex space-x-1" onClick={(e) => e.stopPropagation()}>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -292,10 +461,20 @@ export default function Clients() {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    {client.archived && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reativar"
+                        onClick={() => handleRestore(client)}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => handleDelete(client.id)}
+                      onClick={() => setDeletingClient(client)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -321,10 +500,17 @@ export default function Clients() {
                     <span className="truncate">{client.address}</span>
                   </div>
                 )}
-                {client.notes && (
-                  <div className="flex items-start space-x-2 text-sm">
-                    <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
-                    <span className="text-muted-foreground line-clamp-2">{client.notes}</span>
+                {client.lead_source && (
+                  <div className="flex items-center space-x-2 text-sm">
+                    <Megaphone className="h-4 w-4 text-muted-foreground" />
+                    <span>{client.lead_source}</span>
+                  </div>
+                )}
+                {client.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {client.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
                   </div>
                 )}
               </CardContent>
@@ -339,12 +525,12 @@ export default function Clients() {
             <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <h3 className="text-lg font-semibold mb-2">Nenhum cliente encontrado</h3>
             <p className="text-muted-foreground mb-4">
-              {searchTerm 
+              {isFiltering
                 ? "Tente ajustar sua busca ou adicione um novo cliente"
                 : "Comece adicionando seu primeiro cliente"
               }
             </p>
-            {!searchTerm && (
+            {!isFiltering && (
               <Button 
                 onClick={() => setIsDialogOpen(true)}
                 className="bg-gradient-primary hover:opacity-90 transition-opacity"
@@ -356,6 +542,27 @@ export default function Clients() {
           </CardContent>
         </Card>
       )}
+
+      <ClientDuplicatesDialog
+        open={isDuplicatesOpen}
+        onOpenChange={setIsDuplicatesOpen}
+        clients={clients}
+        onMerged={fetchClients}
+      />
+
+      <ClientImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        clients={clients}
+        onImported={fetchClients}
+      />
+
+      <ClientDeleteDialog
+        client={deletingClient}
+        clients={clients}
+        onOpenChange={(open) => !open && setDeletingClient(null)}
+        onDone={fetchClients}
+      />
     </div>
   );
 }
\ No newline at end of file
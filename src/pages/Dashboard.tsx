@@ -1,8 +1,15 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
-import { Wallet, Users, Calendar, TrendingUp, TrendingDown, DollarSign } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { getBalance, getReceivableStatus } from "@/lib/receivables";
+import { BudgetProgress, getBudgetProgress, toBudgetMonth } from "@/lib/budgets";
+import { BudgetOverview } from "@/components/BudgetOverview";
+import { CashFlowForecast } from "@/components/CashFlowForecast";
+import { Wallet, Users, Calendar, TrendingUp, TrendingDown, DollarSign, HandCoins } from "lucide-react";
+import { Link } from "react-router-dom";
 import { format, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -13,8 +20,14 @@ interface DashboardStats {
   yearlyIncome: number;
   upcomingAppointments: number;
   monthlyBalance: number;
+  receivableBalance: number;
+  overdueReceivables: number;
+  budgets: BudgetProgress<{ id: string; name: string; color: string }>[];
 }
 
+// Competência: despesa no mês da compra. Caixa: compras no cartão contam no mês de vencimento da fatura.
+type ExpenseBasis = "accrual" | "cash";
+
 export default function Dashboard() {
   const [stats, setStats] = useState<DashboardStats>({
     totalClients: 0,
@@ -23,14 +36,18 @@ export default function Dashboard() {
     yearlyIncome: 0,
     upcomingAppointments: 0,
     monthlyBalance: 0,
+    receivableBalance: 0,
+    overdueReceivables: 0,
+    budgets: [],
   });
   const [loading, setLoading] = useState(true);
+  const [basis, setBasis] = useState<ExpenseBasis>("accrual");
 
   useEffect(() => {
-    fetchDashboardStats();
-  }, []);
+    fetchDashboardStats(basis);
+  }, [basis]);
 
-  const fetchDashboardStats = async () => {
+  const fetchDashboardStats = async (basis: ExpenseBasis) => {
     try {
       const now = new Date();
       const monthStart = startOfMonth(now);
@@ -38,17 +55,24 @@ export default function Dashboard() {
       const yearStart = startOfYear(now);
       const yearEnd = endOfYear(now);
 
+      // Lançar as ocorrências recorrentes que já venceram
+      await supabase.rpc("generate_recurring_transactions");
+
       // Total de clientes
       const { count: clientCount } = await supabase
         .from("clients")
         .select("*", { count: "exact", head: true });
 
       // Transações do mês
-      const { data: monthlyTransactions } = await supabase
-        .from("transactions")
-        .select("*")
-        .gte("transaction_date", format(monthStart, "yyyy-MM-dd"))
-        .lte("transaction_date", format(monthEnd, "yyyy-MM-dd"));
+      const from = format(monthStart, "yyyy-MM-dd");
+      const to = format(monthEnd, "yyyy-MM-dd");
+      const monthlyQuery = supabase.from("transactions").select("*");
+      const { data: monthlyTransactions } = basis === "cash"
+        ? await monthlyQuery.or(
+          `and(invoice_due_date.gte.${from},invoice_due_date.lte.${to}),` +
+          `and(invoice_due_date.is.null,transaction_date.gte.${from},transaction_date.lte.${to})`
+        )
+        : await monthlyQuery.gte("transaction_date", from).lte("transaction_date", to);
 
       // Receita anual
       const { data: yearlyTransactions } = await supabase
@@ -65,6 +89,25 @@ export default function Dashboard() {
         .gte("start_date", now.toISOString())
         .eq("status", "scheduled");
 
+      // Parcelas e contas ainda não quitadas
+      const { data: receivables, error: receivablesError } = await supabase
+        .from("receivables")
+        .select("amount, due_date, transactions (amount)");
+
+      if (receivablesError) throw receivablesError;
+
+      // Orçamentos contam despesas pela data da compra, independente do regime escolhido
+      const [{ data: expenseCategories }, { data: budgets }, { data: monthlyExpenses }] = await Promise.all([
+        supabase.from("categories").select("id, name, color").eq("type", "expense").order("name"),
+        supabase.from("category_budgets").select("category_id, month, amount"),
+        supabase
+          .from("transactions")
+          .select("type, amount, category_id, transaction_date")
+          .eq("type", "expense")
+          .gte("transaction_date", from)
+          .lte("transaction_date", to),
+      ]);
+
       // Calcular estatísticas
       const monthlyIncome = monthlyTransactions
         ?.filter(t => t.type === "income")
@@ -84,9 +127,25 @@ export default function Dashboard() {
         yearlyIncome,
         upcomingAppointments: appointmentCount || 0,
         monthlyBalance: monthlyIncome - monthlyExpense,
+        receivableBalance: receivables
+          ?.reduce((sum, r) => sum + getBalance(r), 0) || 0,
+        overdueReceivables: receivables
+          ?.filter(r => getReceivableStatus(r) === "overdue")
+          .reduce((sum, r) => sum + getBalance(r), 0) || 0,
+        budgets: getBudgetProgress(
+          expenseCategories?.map(category => ({ ...category, color: category.color ?? "#64748B" })) || [],
+          budgets || [],
+          monthlyExpenses || [],
+          toBudgetMonth(now),
+        ),
       });
     } catch (error) {
       console.error("Erro ao carregar estatísticas:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar estatísticas",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
@@ -102,7 +161,7 @@ export default function Dashboard() {
   if (loading) {
     return (
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-        {[...Array(6)].map((_, i) => (
+        {[...Array(7)].map((_, i) => (
           <Card key={i} className="animate-pulse">
             <CardHeader className="space-y-0 pb-2">
               <div className="h-4 bg-muted rounded w-3/4"></div>
@@ -116,11 +175,19 @@ export default function Dashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight text-foreground">Dashboard</h1>
-        <p className="text-muted-foreground">
-          Visão geral do seu negócio em {format(new Date(), "MMMM 'de' yyyy", { locale: ptBR })}
-        </p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Visão geral do seu negócio em {format(new Date(), "MMMM 'de' yyyy", { locale: ptBR })}
+          </p>
+        </div>
+        <Tabs value={basis} onValueChange={(value) => setBasis(value as ExpenseBasis)}>
+          <TabsList>
+            <TabsTrigger value="accrual">Competência</TabsTrigger>
+            <TabsTrigger value="cash">Caixa</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -158,6 +225,26 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        {/* A Receber */}
+        <Link to="/receber">
+          <Card className="shadow-md h-full hover:shadow-lg transition-shadow">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">A Receber</CardTitle>
+              <HandCoins className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-primary">
+                {formatCurrency(stats.receivableBalance)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {stats.overdueReceivables > 0
+                  ? <span className="text-destructive">{formatCurrency(stats.overdueReceivables)} vencido</span>
+                  : "Nenhuma parcela vencida"}
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
         {/* Despesas Mensais */}
         <Card className="shadow-md">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -169,7 +256,9 @@ export default function Dashboard() {
               {formatCurrency(stats.monthlyExpense)}
             </div>
             <p className="text-xs text-muted-foreground">
-              Saídas de {format(new Date(), "MMMM", { locale: ptBR })}
+              {basis === "cash"
+                ? `Saídas de ${format(new Date(), "MMMM", { locale: ptBR })}, cartão pelo vencimento da fatura`
+                : `Compras de ${format(new Date(), "MMMM", { locale: ptBR })}, incluindo cartão`}
             </p>
           </CardContent>
         </Card>
@@ -219,6 +308,16 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Previsão de caixa */}
+      <CashFlowForecast />
+
+      {/* Orçamentos por categoria */}
+      {stats.budgets.length > 0 && (
+        <Link to="/caixa" className="block">
+          <BudgetOverview items={stats.budgets} month={new Date()} />
+        </Link>
+      )}
+
       {/* Cartão de Boas-vindas */}
       <Card className="bg-gradient-hero shadow-lg">
         <CardHeader>
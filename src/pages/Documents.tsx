@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useDocumentDownload } from "@/hooks/use-document-download";
+import { DocumentKind, documentKindLabels, formatDocumentNumber } from "@/lib/documentPdf";
+import { Search, Download, FileText } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface StoredDocument {
+  id: string;
+  kind: DocumentKind;
+  number: number;
+  appointment_id: string | null;
+  transaction_id: string | null;
+  client_name: string | null;
+  description: string;
+  items: unknown;
+  studio: unknown;
+  total: number;
+  issue_date: string;
+}
+
+export default function Documents() {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [kindFilter, setKindFilter] = useState<"all" | DocumentKind>("all");
+  const { downloadDocument, downloadingId } = useDocumentDownload();
+
+  useEffect(() => {
+    fetchDocuments();
+  }, []);
+
+  const fetchDocuments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("documents")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      setDocuments(data as StoredDocument[] || []);
+    } catch (error) {
+      console.error("Erro ao carregar documentos:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar documentos",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const filteredDocuments = documents.filter(document =>
+    (kindFilter === "all" || document.kind === kindFilter) &&
+    [document.client_name, document.description, formatDocumentNumber(document.kind, document.number)]
+      .some(value => value?.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-1/4 animate-pulse"></div>
+        <div className="space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-4 bg-muted rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-muted rounded w-1/2"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Documentos</h1>
+        <p className="text-muted-foreground">
+          Recibos e faturas emitidos, com segunda via
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between space-x-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por número, cliente ou descrição..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Tabs value={kindFilter} onValueChange={(value) => setKindFilter(value as "all" | DocumentKind)}>
+          <TabsList>
+            <TabsTrigger value="all">Todos</TabsTrigger>
+            <TabsTrigger value="receipt">Recibos</TabsTrigger>
+            <TabsTrigger value="invoice">Faturas</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="space-y-4">
+        {filteredDocuments.map((document) => (
+          <Card key={document.id} className="shadow-sm hover:shadow-md transition-shadow">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Badge variant={document.kind === "receipt" ? "default" : "secondary"}>
+                      {documentKindLabels[document.kind]}
+                    </Badge>
+                    <span className="font-mono text-sm">{formatDocumentNumber(document.kind, document.number)}</span>
+                  </div>
+                  <h3 className="font-semibold">{document.description}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {document.client_name || "Sem cliente"} ·{" "}
+                    {format(parseISO(document.issue_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-lg font-bold">{formatCurrency(document.total)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Baixar segunda via"
+                    disabled={downloadingId === document.id}
+                    onClick={() => downloadDocument(document)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {filteredDocuments.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Nenhum documento emitido</h3>
+            <p className="text-muted-foreground text-center">
+              Emita recibos no Controle de Caixa e faturas na Agenda
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
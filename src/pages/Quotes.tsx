@@ -0,0 +1,365 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Quote, QuoteDialog } from "@/components/QuoteDialog";
+import { AppointmentDialog, AppointmentTemplate } from "@/components/AppointmentDialog";
+import { QuoteStatus, applyDiscount, getSubtotal, quoteStatusLabels } from "@/lib/quotes";
+import { Plus, Search, Edit, Trash2, FileSignature, CalendarPlus, CalendarCheck } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface QuoteWithAppointment extends Quote {
+  appointments?: { start_date: string };
+}
+
+const statusVariants: Record<QuoteStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  sent: "secondary",
+  accepted: "default",
+  rejected: "destructive",
+};
+
+export default function Quotes() {
+  const [quotes, setQuotes] = useState<QuoteWithAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+  const [convertingQuote, setConvertingQuote] = useState<Quote | null>(null);
+  const [appointmentTemplate, setAppointmentTemplate] = useState<AppointmentTemplate | undefined>();
+
+  useEffect(() => {
+    fetchQuotes();
+  }, []);
+
+  const fetchQuotes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("quotes")
+        .select(`
+          *,
+          clients (name),
+          appointments (start_date),
+          quote_services (
+            service_id,
+            price,
+            quantity,
+            services (id, name, base_price)
+          )
+        `)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      setQuotes((data || []).map(quote => ({
+        ...quote,
+        quote_services: quote.quote_services.map(item => ({
+          service_id: item.service_id!,
+          price: item.price!,
+          quantity: item.quantity!,
+          service: item.services ?? undefined,
+        })),
+      })) as QuoteWithAppointment[]);
+    } catch (error) {
+      console.error("Erro ao carregar orçamentos:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar orçamentos",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (quote: Quote, status: QuoteStatus) => {
+    try {
+      const { error } = await supabase
+        .from("quotes")
+        .update({ status })
+        .eq("id", quote.id);
+
+      if (error) throw error;
+
+      fetchQuotes();
+    } catch (error) {
+      console.error("Erro ao atualizar orçamento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar orçamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este orçamento?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("quotes")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Orçamento excluído com sucesso",
+      });
+      fetchQuotes();
+    } catch (error) {
+      console.error("Erro ao excluir orçamento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir orçamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConvert = (quote: Quote) => {
+    setConvertingQuote(quote);
+    setAppointmentTemplate({
+      title: quote.title,
+      description: quote.description,
+      client_id: quote.client_id,
+      services: applyDiscount(
+        quote.quote_services.map(({ service_id, price, quantity }) => ({ service_id, price, quantity })),
+        quote.discount,
+      ),
+    });
+  };
+
+  const handleAppointmentSaved = async (appointmentId?: string) => {
+    if (!convertingQuote || !appointmentId) return;
+
+    const { error } = await supabase
+      .from("quotes")
+      .update({ appointment_id: appointmentId })
+      .eq("id", convertingQuote.id);
+
+    if (error) {
+      console.error("Erro ao vincular orçamento ao agendamento:", error);
+      toast({
+        title: "Erro",
+        description: "Agendamento criado, mas falha ao marcar o orçamento como convertido",
+        variant: "destructive",
+      });
+    }
+
+    setConvertingQuote(null);
+    fetchQuotes();
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const isExpired = (quote: Quote) =>
+    !!quote.valid_until && quote.valid_until < today && (quote.status === "draft" || quote.status === "sent");
+
+  const filteredQuotes = quotes.filter(quote =>
+    (statusFilter === "all" || quote.status === statusFilter) &&
+    (quote.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      quote.clients?.name.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-1/4 animate-pulse"></div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader>
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+                <div className="h-3 bg-muted rounded w-1/2"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Orçamentos</h1>
+          <p className="text-muted-foreground">
+            Propostas enviadas antes do cliente fechar
+          </p>
+        </div>
+        <Button
+          className="bg-gradient-primary hover:opacity-90 transition-opacity"
+          onClick={() => {
+            setEditingQuote(null);
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Orçamento
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar orçamentos..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os status</SelectItem>
+            {Object.entries(quoteStatusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {filteredQuotes.map((quote) => {
+          const subtotal = getSubtotal(quote.quote_services);
+
+          return (
+            <Card key={quote.id} className="shadow-md hover:shadow-lg transition-shadow">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{quote.title}</CardTitle>
+                    <CardDescription>
+                      {quote.clients?.name ?? "Sem cliente"}
+                    </CardDescription>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setEditingQuote(quote);
+                        setIsDialogOpen(true);
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(quote.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Badge variant={statusVariants[quote.status]}>{quoteStatusLabels[quote.status]}</Badge>
+                  {isExpired(quote) && <Badge variant="destructive">Expirado</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground space-y-1">
+                  <div>
+                    {quote.quote_services.length} {quote.quote_services.length === 1 ? "serviço" : "serviços"}
+                    {quote.discount > 0 && ` · desconto de ${formatCurrency(quote.discount)}`}
+                  </div>
+                  {quote.valid_until && (
+                    <div>Válido até {format(parseISO(quote.valid_until), "dd/MM/yyyy", { locale: ptBR })}</div>
+                  )}
+                </div>
+                <div className="text-xl font-bold text-primary">
+                  {formatCurrency(Math.max(subtotal - quote.discount, 0))}
+                </div>
+
+                <div className="flex items-center justify-between space-x-2">
+                  <Select
+                    value={quote.status}
+                    onValueChange={(value) => handleStatusChange(quote, value as QuoteStatus)}
+                  >
+                    <SelectTrigger className="h-9 w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(quoteStatusLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {quote.appointments ? (
+                    <Link to={`/agenda?data=${format(parseISO(quote.appointments.start_date), "yyyy-MM-dd")}`}>
+                      <Badge variant="outline" className="hover:bg-muted">
+                        <CalendarCheck className="h-3 w-3 mr-1" />
+                        Agendado
+                      </Badge>
+                    </Link>
+                  ) : quote.status === "accepted" && (
+                    <Button size="sm" variant="outline" onClick={() => handleConvert(quote)}>
+                      <CalendarPlus className="h-4 w-4 mr-2" />
+                      Agendar
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {filteredQuotes.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileSignature className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Nenhum orçamento encontrado</h3>
+            <p className="text-muted-foreground text-center">
+              {searchTerm || statusFilter !== "all"
+                ? "Tente ajustar os filtros"
+                : "Crie o primeiro orçamento para enviar aos seus clientes"
+              }
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <QuoteDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        quote={editingQuote}
+        onSave={fetchQuotes}
+      />
+
+      <AppointmentDialog
+        open={!!convertingQuote}
+        onOpenChange={(open) => !open && setConvertingQuote(null)}
+        template={appointmentTemplate}
+        onSave={handleAppointmentSaved}
+      />
+    </div>
+  );
+}
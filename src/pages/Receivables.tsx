@@ -0,0 +1,600 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { PixChargeDialog } from "@/components/PixChargeDialog";
+import {
+  ReceivableStatus,
+  getBalance,
+  getDaysOverdue,
+  getPaidAmount,
+  getReceivableStatus,
+  receivableStatusLabels,
+} from "@/lib/receivables";
+import { Plus, Search, HandCoins, AlertTriangle, CalendarCheck, History, Trash2, Users, QrCode } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+interface Payment {
+  id: string;
+  amount: number;
+  transaction_date: string;
+}
+
+interface Receivable {
+  id: string;
+  client_id?: string;
+  appointment_id?: string;
+  description: string;
+  amount: number;
+  due_date: string;
+  clients?: { name: string };
+  appointments?: { title: string; start_date: string };
+  transactions: Payment[];
+}
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface ClientLedger {
+  key: string;
+  name: string;
+  receivables: Receivable[];
+  balance: number;
+  overdue: number;
+  oldestDueDate: string;
+}
+
+const statusVariants: Record<ReceivableStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  partial: "outline",
+  overdue: "destructive",
+  paid: "default",
+};
+
+export default function Receivables() {
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showPaid, setShowPaid] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    client_id: "",
+    description: "",
+    amount: "",
+    due_date: format(new Date(), "yyyy-MM-dd"),
+  });
+  const [payingReceivable, setPayingReceivable] = useState<Receivable | null>(null);
+  const [paymentForm, setPaymentForm] = useState({ amount: "", paid_at: "" });
+  const [chargingReceivable, setChargingReceivable] = useState<Receivable | null>(null);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, []);
+
+  const fetchReceivables = async () => {
+    try {
+      const [receivablesRes, clientsRes] = await Promise.all([
+        supabase
+          .from("receivables")
+          .select(`
+            *,
+            clients (name),
+            appointments (title, start_date),
+            transactions (id, amount, transaction_date)
+          `)
+          .order("due_date"),
+        supabase.from("clients").select("id, name").order("name"),
+      ]);
+
+      if (receivablesRes.error) throw receivablesRes.error;
+      if (clientsRes.error) throw clientsRes.error;
+
+      setReceivables(receivablesRes.data as Receivable[] || []);
+      setClients(clientsRes.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar contas a receber:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar contas a receber",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from("receivables")
+        .insert([{
+          client_id: formData.client_id || null,
+          description: formData.description,
+          amount: parseFloat(formData.amount),
+          due_date: formData.due_date,
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Conta a receber criada com sucesso",
+      });
+      setIsDialogOpen(false);
+      fetchReceivables();
+    } catch (error) {
+      console.error("Erro ao salvar conta a receber:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar conta a receber",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openPayment = (receivable: Receivable) => {
+    setPayingReceivable(receivable);
+    setPaymentForm({
+      amount: getBalance(receivable).toString(),
+      paid_at: format(new Date(), "yyyy-MM-dd"),
+    });
+  };
+
+  const handlePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingReceivable) return;
+
+    try {
+      const { error } = await supabase.rpc("pay_receivable", {
+        p_receivable_id: payingReceivable.id,
+        p_amount: parseFloat(paymentForm.amount),
+        p_paid_at: paymentForm.paid_at,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Pagamento registrado e lançado no caixa",
+      });
+      setPayingReceivable(null);
+      fetchReceivables();
+    } catch (error) {
+      console.error("Erro ao registrar pagamento:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao registrar pagamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta conta a receber?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("receivables")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Conta a receber excluída com sucesso",
+      });
+      fetchReceivables();
+    } catch (error) {
+      console.error("Erro ao excluir conta a receber:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir conta a receber",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+  const openReceivables = receivables.filter(r => getReceivableStatus(r) !== "paid");
+  const totalOpen = openReceivables.reduce((sum, r) => sum + getBalance(r), 0);
+  const totalOverdue = openReceivables
+    .filter(r => getReceivableStatus(r) === "overdue")
+    .reduce((sum, r) => sum + getBalance(r), 0);
+
+  // Agrupa por cliente; quem tem a dívida mais antiga aparece primeiro
+  const ledgers = Object.values(
+    (showPaid ? receivables : openReceivables)
+      .filter(r => (r.clients?.name ?? "Sem cliente").toLowerCase().includes(searchTerm.toLowerCase()))
+      .reduce<Record<string, ClientLedger>>((groups, receivable) => {
+        const key = receivable.client_id ?? "none";
+        if (!groups[key]) {
+          groups[key] = {
+            key,
+            name: receivable.clients?.name ?? "Sem cliente",
+            receivables: [],
+            balance: 0,
+            overdue: 0,
+            oldestDueDate: receivable.due_date,
+          };
+        }
+
+        const group = groups[key];
+
+        group.receivables.push(receivable);
+        group.balance += getBalance(receivable);
+        if (getReceivableStatus(receivable) === "overdue") group.overdue += getBalance(receivable);
+        if (getBalance(receivable) > 0 && receivable.due_date < group.oldestDueDate) {
+          group.oldestDueDate = receivable.due_date;
+        }
+
+        return groups;
+      }, {})
+  ).sort((a, b) => a.oldestDueDate.localeCompare(b.oldestDueDate));
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-1/4 animate-pulse"></div>
+        <div className="grid gap-4 md:grid-cols-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader>
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+                <div className="h-8 bg-muted rounded w-1/2 mt-2"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Contas a Receber</h1>
+          <p className="text-muted-foreground">
+            Acompanhe o que cada cliente ainda deve
+          </p>
+        </div>
+        <Button
+          className="bg-gradient-primary hover:opacity-90 transition-opacity"
+          onClick={() => {
+            setFormData({
+              client_id: "",
+              description: "",
+              amount: "",
+              due_date: format(new Date(), "yyyy-MM-dd"),
+            });
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Conta
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Em Aberto</CardTitle>
+            <HandCoins className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-primary">{formatCurrency(totalOpen)}</div>
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Vencido</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-destructive">{formatCurrency(totalOverdue)}</div>
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Clientes com Saldo</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {new Set(openReceivables.map(r => r.client_id ?? "none")).size}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex items-center justify-between space-x-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar cliente..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Tabs value={showPaid ? "all" : "open"} onValueChange={(value) => setShowPaid(value === "all")}>
+          <TabsList>
+            <TabsTrigger value="open">Em aberto</TabsTrigger>
+            <TabsTrigger value="all">Todas</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {ledgers.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <HandCoins className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Nada a receber</h3>
+            <p className="text-muted-foreground text-center">
+              Parcelas dos agendamentos e contas avulsas aparecem aqui
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {ledgers.map((ledger) => (
+        <Card key={ledger.key} className="shadow-md">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>{ledger.name}</CardTitle>
+              <CardDescription>
+                {ledger.receivables.length} {ledger.receivables.length === 1 ? "lançamento" : "lançamentos"}
+              </CardDescription>
+            </div>
+            <div className="text-right">
+              <div className="text-lg font-bold">{formatCurrency(ledger.balance)}</div>
+              {ledger.overdue > 0 && (
+                <div className="text-xs text-destructive">{formatCurrency(ledger.overdue)} vencido</div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {ledger.receivables.map((receivable) => {
+              const status = getReceivableStatus(receivable);
+              const paid = getPaidAmount(receivable);
+
+              return (
+                <div key={receivable.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{receivable.description}</span>
+                        <Badge variant={statusVariants[status]}>{receivableStatusLabels[status]}</Badge>
+                        {receivable.appointments && (
+                          <Link to={`/agenda?data=${format(parseISO(receivable.appointments.start_date), "yyyy-MM-dd")}`}>
+                            <Badge variant="outline" className="hover:bg-muted">
+                              <CalendarCheck className="h-3 w-3 mr-1" />
+                              {receivable.appointments.title}
+                            </Badge>
+                          </Link>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Vence em {formatDate(receivable.due_date)}
+                        {status === "overdue" && ` · ${getDaysOverdue(receivable.due_date)} dias em atraso`}
+                        {paid > 0 && ` · ${formatCurrency(paid)} de ${formatCurrency(receivable.amount)} pago`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{formatCurrency(getBalance(receivable))}</span>
+                      {receivable.transactions.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Histórico de pagamentos"
+                          onClick={() => setExpandedId(expandedId === receivable.id ? null : receivable.id)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status !== "paid" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Cobrar via Pix"
+                          onClick={() => setChargingReceivable(receivable)}
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status !== "paid" && (
+                        <Button variant="outline" size="sm" onClick={() => openPayment(receivable)}>
+                          Receber
+                        </Button>
+                      )}
+                      {!receivable.appointment_id && receivable.transactions.length === 0 && (
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(receivable.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expandedId === receivable.id && (
+                    <ul className="mt-3 space-y-1 border-t pt-2 text-sm">
+                      {receivable.transactions.map((payment) => (
+                        <li key={payment.id} className="flex justify-between">
+                          <Link to={`/caixa?transacao=${payment.id}`} className="text-muted-foreground hover:underline">
+                            {formatDate(payment.transaction_date)}
+                          </Link>
+                          <span className="text-success">+{formatCurrency(payment.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Nova Conta a Receber</DialogTitle>
+            <DialogDescription>
+              Registre um valor avulso que o cliente ainda vai pagar
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="receivable-client">Cliente</Label>
+                <Select
+                  value={formData.client_id}
+                  onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+                >
+                  <SelectTrigger id="receivable-client">
+                    <SelectValue placeholder="Selecione um cliente" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receivable-description">Descrição *</Label>
+                <Input
+                  id="receivable-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="receivable-amount">Valor *</Label>
+                  <Input
+                    id="receivable-amount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receivable-due-date">Vencimento *</Label>
+                  <Input
+                    id="receivable-due-date"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="bg-gradient-primary hover:opacity-90 transition-opacity">
+                Criar Conta
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <PixChargeDialog
+        open={!!chargingReceivable}
+        onOpenChange={(open) => !open && setChargingReceivable(null)}
+        amount={chargingReceivable ? getBalance(chargingReceivable) : 0}
+        reference={chargingReceivable?.appointment_id ?? chargingReceivable?.id}
+        description={chargingReceivable
+          ? [chargingReceivable.description, chargingReceivable.appointments?.title].filter(Boolean).join(" - ")
+          : ""}
+        clientName={chargingReceivable?.clients?.name}
+      />
+
+      <Dialog open={!!payingReceivable} onOpenChange={(open) => !open && setPayingReceivable(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Registrar Pagamento</DialogTitle>
+            <DialogDescription>
+              {payingReceivable && `${payingReceivable.description} · saldo de ${formatCurrency(getBalance(payingReceivable))}`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePayment}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Valor recebido *</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max={payingReceivable ? getBalance(payingReceivable) : undefined}
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Data do pagamento *</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={paymentForm.paid_at}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paid_at: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="bg-gradient-primary hover:opacity-90 transition-opacity">
+                Registrar Pagamento
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState, useEffect } from "react";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { getServiceLineTotal } from "@/lib/appointmentServices";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { TrendingUp, TrendingDown, FileText } from "lucide-react";
+import { format, startOfMonth, endOfMonth, endOfDay } from "date-fns";
+
+interface Transaction {
+  type: "income" | "expense";
+  amount: number;
+  client_id?: string;
+  categories?: { name: string; color: string };
+  clients?: { name: string };
+}
+
+interface Appointment {
+  id: string;
+  status: string;
+  appointment_services?: Array<{
+    price: number | null;
+    quantity: number | null;
+    services: { name: string };
+  }>;
+}
+
+interface CategoryTotal {
+  category: string;
+  income: number;
+  expense: number;
+}
+
+interface NamedTotal {
+  name: string;
+  value: number;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: "Agendado",
+  completed: "Concluído",
+  cancelled: "Cancelado",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  scheduled: "hsl(var(--primary))",
+  completed: "hsl(var(--success))",
+  cancelled: "hsl(var(--destructive))",
+};
+
+const categoryChartConfig = {
+  income: { label: "Receitas", color: "hsl(var(--success))" },
+  expense: { label: "Despesas", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const revenueChartConfig = {
+  value: { label: "Receita", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const statusChartConfig = {
+  scheduled: { label: STATUS_LABELS.scheduled, color: STATUS_COLORS.scheduled },
+  completed: { label: STATUS_LABELS.completed, color: STATUS_COLORS.completed },
+  cancelled: { label: STATUS_LABELS.cancelled, color: STATUS_COLORS.cancelled },
+} satisfies ChartConfig;
+
+export default function Reports() {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: endOfMonth(new Date()),
+  });
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (dateRange?.from) {
+      fetchReportData(dateRange.from, dateRange.to ?? dateRange.from);
+    }
+  }, [dateRange]);
+
+  const fetchReportData = async (from: Date, to: Date) => {
+    setLoading(true);
+    try {
+      const [transactionsRes, appointmentsRes] = await Promise.all([
+        supabase
+          .from("transactions")
+          .select(`
+            type,
+            amount,
+            client_id,
+            categories (name, color),
+            clients (name)
+          `)
+          // Transferências entre contas não são receita nem despesa
+          .in("type", ["income", "expense"])
+          .gte("transaction_date", format(from, "yyyy-MM-dd"))
+          .lte("transaction_date", format(to, "yyyy-MM-dd")),
+        supabase
+          .from("appointments")
+          .select(`
+            id,
+            status,
+            appointment_services (
+              price,
+              quantity,
+              services (name)
+            )
+          `)
+          .gte("start_date", from.toISOString())
+          .lte("start_date", endOfDay(to).toISOString()),
+      ]);
+
+      if (transactionsRes.error) throw transactionsRes.error;
+      if (appointmentsRes.error) throw appointmentsRes.error;
+
+      setTransactions(transactionsRes.data as Transaction[] || []);
+      setAppointments(appointmentsRes.data as Appointment[] || []);
+    } catch (error) {
+      console.error("Erro ao carregar relatórios:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar relatórios",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const sortByValue = (totals: Map<string, number>): NamedTotal[] =>
+    Array.from(totals, ([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
+
+  const totalIncome = transactions
+    .filter(t => t.type === "income")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const totalExpense = transactions
+    .filter(t => t.type === "expense")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  // Receitas x despesas agrupadas por categoria
+  const categoryTotals: CategoryTotal[] = Object.values(
+    transactions.reduce<Record<string, CategoryTotal>>((acc, t) => {
+      const category = t.categories?.name || "Sem categoria";
+      acc[category] ??= { category, income: 0, expense: 0 };
+      acc[category][t.type] += Number(t.amount);
+      return acc;
+    }, {})
+  ).sort((a, b) => (b.income + b.expense) - (a.income + a.expense));
+
+  // Receita por serviço considera apenas agendamentos concluídos
+  const serviceTotals = sortByValue(
+    appointments
+      .filter(a => a.status === "completed")
+      .flatMap(a => a.appointment_services || [])
+      .reduce((acc, s) => {
+        const name = s.services?.name || "Serviço removido";
+        acc.set(name, (acc.get(name) || 0) + getServiceLineTotal(s));
+        return acc;
+      }, new Map<string, number>())
+  );
+
+  const clientTotals = sortByValue(
+    transactions
+      .filter(t => t.type === "income" && t.clients)
+      .reduce((acc, t) => {
+        acc.set(t.clients!.name, (acc.get(t.clients!.name) || 0) + Number(t.amount));
+        return acc;
+      }, new Map<string, number>())
+  ).slice(0, 10);
+
+  const statusTotals = Object.keys(STATUS_LABELS)
+    .map(status => ({
+      status,
+      count: appointments.filter(a => a.status === status).length,
+    }))
+    .filter(s => s.count > 0);
+
+  const renderEmpty = (message: string) => (
+    <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+      {message}
+    </div>
+  );
+
+  const renderRevenueChart = (data: NamedTotal[]) => (
+    <ChartContainer config={revenueChartConfig} className="h-[300px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickFormatter={(value) => formatCurrency(Number(value))} />
+        <YAxis type="category" dataKey="name" width={140} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+        />
+        <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Relatórios</h1>
+          <p className="text-muted-foreground">
+            Analise o desempenho do seu negócio por período
+          </p>
+        </div>
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
+      </div>
+
+      {/* Resumo do Período */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Receitas no Período</CardTitle>
+            <TrendingUp className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">
+              {formatCurrency(totalIncome)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Despesas no Período</CardTitle>
+            <TrendingDown className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-destructive">
+              {formatCurrency(totalExpense)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Resultado</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totalIncome - totalExpense >= 0 ? "text-success" : "text-destructive"}`}>
+              {formatCurrency(totalIncome - totalExpense)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader>
+                <div className="h-4 bg-muted rounded w-1/2"></div>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[250px] bg-muted rounded"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Receitas x Despesas por Categoria */}
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Receitas x Despesas por Categoria</CardTitle>
+              <CardDescription>Transações do período agrupadas por categoria</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {categoryTotals.length === 0 ? renderEmpty("Nenhuma transação no período") : (
+                <ChartContainer config={categoryChartConfig} className="h-[300px] w-full">
+                  <BarChart data={categoryTotals}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="category" tickLine={false} axisLine={false} />
+                    <YAxis tickFormatter={(value) => formatCurrency(Number(value))} width={90} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+                    <Bar dataKey="expense" fill="var(--color-expense)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Agendamentos por Status */}
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Agendamentos por Status</CardTitle>
+              <CardDescription>
+                {appointments.length} {appointments.length === 1 ? "agendamento" : "agendamentos"} no período
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {statusTotals.length === 0 ? renderEmpty("Nenhum agendamento no período") : (
+                <ChartContainer config={statusChartConfig} className="h-[300px] w-full">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                    <Pie data={statusTotals} dataKey="count" nameKey="status" innerRadius={60}>
+                      {statusTotals.map((entry) => (
+                        <Cell key={entry.status} fill={STATUS_COLORS[entry.status]} />
+                      ))}
+                    </Pie>
+                    <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+                  </PieChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Receita por Serviço */}
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Receita por Serviço</CardTitle>
+              <CardDescription>Serviços de agendamentos concluídos no período</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {serviceTotals.length === 0
+                ? renderEmpty("Nenhum serviço concluído no período")
+                : renderRevenueChart(serviceTotals)}
+            </CardContent>
+          </Card>
+
+          {/* Receita por Cliente */}
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Receita por Cliente</CardTitle>
+              <CardDescription>Os 10 clientes com maior receita no período</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {clientTotals.length === 0
+                ? renderEmpty("Nenhuma receita vinculada a clientes no período")
+                : renderRevenueChart(clientTotals)}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
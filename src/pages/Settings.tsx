@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/AuthWrapper";
+import { Building2, QrCode } from "lucide-react";
+
+const emptyStudio = {
+  studio_name: "",
+  document: "",
+  email: "",
+  phone: "",
+  address: "",
+  pix_key: "",
+  pix_merchant_name: "",
+  pix_merchant_city: "",
+};
+
+export default function Settings() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [studio, setStudio] = useState(emptyStudio);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("studio_settings")
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setStudio({
+          studio_name: data.studio_name || "",
+          document: data.document || "",
+          email: data.email || "",
+          phone: data.phone || "",
+          address: data.address || "",
+          pix_key: data.pix_key || "",
+          pix_merchant_name: data.pix_merchant_name || "",
+          pix_merchant_city: data.pix_merchant_city || "",
+        });
+      }
+    } catch (error) {
+      console.error("Erro ao carregar configurações:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar configurações",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("studio_settings")
+        .upsert({
+          ...studio,
+          owner_id: user.id,
+        }, { onConflict: "owner_id" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Sucesso",
+        description: "Configurações salvas com sucesso",
+      });
+    } catch (error) {
+      console.error("Erro ao salvar configurações:", error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar configurações",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-1/4 animate-pulse"></div>
+        <Card className="animate-pulse">
+          <CardHeader>
+            <div className="h-4 bg-muted rounded w-1/3"></div>
+            <div className="h-3 bg-muted rounded w-1/2"></div>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Configurações</h1>
+        <p className="text-muted-foreground">
+          Dados do estúdio usados em recibos, faturas e cobranças Pix
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Building2 className="h-4 w-4 mr-2" />
+              Dados do Estúdio
+            </CardTitle>
+            <CardDescription>
+              Aparecem no cabeçalho dos documentos emitidos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="studio_name">Nome do estúdio</Label>
+                <Input
+                  id="studio_name"
+                  value={studio.studio_name}
+                  onChange={(e) => setStudio({ ...studio, studio_name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="studio_document">CPF/CNPJ</Label>
+                <Input
+                  id="studio_document"
+                  value={studio.document}
+                  onChange={(e) => setStudio({ ...studio, document: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="studio_email">Email</Label>
+                <Input
+                  id="studio_email"
+                  type="email"
+                  value={studio.email}
+                  onChange={(e) => setStudio({ ...studio, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="studio_phone">Telefone</Label>
+                <Input
+                  id="studio_phone"
+                  value={studio.phone}
+                  onChange={(e) => setStudio({ ...studio, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="studio_address">Endereço</Label>
+              <Textarea
+                id="studio_address"
+                value={studio.address}
+                onChange={(e) => setStudio({ ...studio, address: e.target.value })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <QrCode className="h-4 w-4 mr-2" />
+              Pix
+            </CardTitle>
+            <CardDescription>
+              Usados para gerar o QR Code e o "copia e cola" das cobranças
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pix_key">Chave Pix</Label>
+              <Input
+                id="pix_key"
+                value={studio.pix_key}
+                onChange={(e) => setStudio({ ...studio, pix_key: e.target.value })}
+                placeholder="CPF/CNPJ, email, telefone (+55...) ou chave aleatória"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pix_merchant_name">Nome do recebedor</Label>
+                <Input
+                  id="pix_merchant_name"
+                  value={studio.pix_merchant_name}
+                  onChange={(e) => setStudio({ ...studio, pix_merchant_name: e.target.value })}
+                  maxLength={25}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pix_merchant_city">Cidade</Label>
+                <Input
+                  id="pix_merchant_city"
+                  value={studio.pix_merchant_city}
+                  onChange={(e) => setStudio({ ...studio, pix_merchant_city: e.target.value })}
+                  maxLength={15}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={saving}
+            className="bg-gradient-primary hover:opacity-90 transition-opacity"
+          >
+            {saving ? "Salvando..." : "Salvar Configurações"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+-- Propriedade dos dados por usuário (Supabase Auth) e RLS baseada em owner_id
+
+-- Coluna de dono em todas as tabelas, preenchida com o usuário autenticado no insert
+ALTER TABLE public.categories
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.clients
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.transactions
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.appointments
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.services
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.appointment_services
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX idx_categories_owner_id ON public.categories(owner_id);
+CREATE INDEX idx_clients_owner_id ON public.clients(owner_id);
+CREATE INDEX idx_transactions_owner_id ON public.transactions(owner_id);
+CREATE INDEX idx_appointments_owner_id ON public.appointments(owner_id);
+CREATE INDEX idx_services_owner_id ON public.services(owner_id);
+CREATE INDEX idx_appointment_services_owner_id ON public.appointment_services(owner_id);
+
+-- Impede que o cliente grave owner_id de outro usuário
+CREATE OR REPLACE FUNCTION public.set_owner_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.owner_id = auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_categories_owner_id
+  BEFORE INSERT ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_clients_owner_id
+  BEFORE INSERT ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_transactions_owner_id
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_appointments_owner_id
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_services_owner_id
+  BEFORE INSERT ON public.services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_appointment_services_owner_id
+  BEFORE INSERT ON public.appointment_services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+-- Dados existentes (sistema de usuário único) passam para o primeiro usuário cadastrado
+DO $$
+DECLARE
+  first_user UUID;
+BEGIN
+  SELECT id INTO first_user FROM auth.users ORDER BY created_at LIMIT 1;
+
+  IF first_user IS NOT NULL THEN
+    UPDATE public.categories SET owner_id = first_user WHERE owner_id IS NULL;
+    UPDATE public.clients SET owner_id = first_user WHERE owner_id IS NULL;
+    UPDATE public.transactions SET owner_id = first_user WHERE owner_id IS NULL;
+    UPDATE public.appointments SET owner_id = first_user WHERE owner_id IS NULL;
+    UPDATE public.services SET owner_id = first_user WHERE owner_id IS NULL;
+    UPDATE public.appointment_services SET owner_id = first_user WHERE owner_id IS NULL;
+  END IF;
+END $$;
+
+-- Remover políticas permissivas
+DROP POLICY "Allow all operations on categories" ON public.categories;
+DROP POLICY "Allow all operations on clients" ON public.clients;
+DROP POLICY "Allow all operations on transactions" ON public.transactions;
+DROP POLICY "Allow all operations on appointments" ON public.appointments;
+DROP POLICY "Allow all operations on services" ON public.services;
+DROP POLICY "Allow all operations on appointment_services" ON public.appointment_services;
+
+-- Cada usuário acessa apenas os próprios registros
+
+-- Categorias
+CREATE POLICY "Owners manage their categories" ON public.categories
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Clientes
+CREATE POLICY "Owners manage their clients" ON public.clients
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Transações
+CREATE POLICY "Owners manage their transactions" ON public.transactions
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Compromissos
+CREATE POLICY "Owners manage their appointments" ON public.appointments
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Serviços
+CREATE POLICY "Owners manage their services" ON public.services
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Serviços dos Compromissos (o compromisso vinculado também precisa ser do usuário)
+CREATE POLICY "Owners manage their appointment_services" ON public.appointment_services
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.id = appointment_id AND a.owner_id = auth.uid()
+    )
+  );
+
+-- Categorias e serviços padrão para cada novo usuário
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.categories (name, type, color, description, owner_id) VALUES
+  ('Sessões de Foto', 'income', '#8B5CF6', 'Receitas de sessões fotográficas', NEW.id),
+  ('Storytelling', 'income', '#EC4899', 'Receitas de serviços de storytelling', NEW.id),
+  ('Equipamentos', 'expense', '#EF4444', 'Gastos com equipamentos fotográficos', NEW.id),
+  ('Marketing', 'expense', '#F97316', 'Investimentos em marketing e publicidade', NEW.id),
+  ('Transporte', 'expense', '#84CC16', 'Custos de deslocamento', NEW.id),
+  ('Alimentação', 'expense', '#06B6D4', 'Despesas com alimentação em trabalhos', NEW.id);
+
+  INSERT INTO public.services (name, description, base_price, duration_hours, owner_id) VALUES
+  ('Ensaio Individual', 'Sessão fotográfica individual com 30 fotos editadas', 350.00, 2, NEW.id),
+  ('Ensaio Casal', 'Sessão fotográfica para casal com 40 fotos editadas', 450.00, 3, NEW.id),
+  ('Ensaio Família', 'Sessão fotográfica familiar com 50 fotos editadas', 550.00, 3, NEW.id),
+  ('Storytelling Empresarial', 'Criação de conteúdo visual para empresas', 800.00, 4, NEW.id),
+  ('Cobertura de Evento', 'Cobertura fotográfica completa de eventos', 1200.00, 8, NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
@@ -0,0 +1,42 @@
+-- Bloqueio de agendamentos sobrepostos (double-booking)
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Permite que o usuário confirme conscientemente um agendamento em conflito
+ALTER TABLE public.appointments
+  ADD COLUMN allow_overlap BOOLEAN NOT NULL DEFAULT false;
+
+-- Agendamentos já sobrepostos são mantidos como exceções confirmadas
+UPDATE public.appointments a
+SET allow_overlap = true
+WHERE a.status = 'scheduled'
+  AND EXISTS (
+    SELECT 1 FROM public.appointments b
+    WHERE b.id <> a.id
+      AND b.owner_id IS NOT DISTINCT FROM a.owner_id
+      AND b.status = 'scheduled'
+      AND tstzrange(b.start_date, b.end_date) && tstzrange(a.start_date, a.end_date)
+  );
+
+-- Dois agendamentos "scheduled" do mesmo dono não podem ocupar o mesmo horário
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (
+    owner_id WITH =,
+    tstzrange(start_date, end_date) WITH &&
+  ) WHERE (status = 'scheduled' AND NOT allow_overlap);
+
+-- Lista os agendamentos que conflitam com um intervalo
+CREATE OR REPLACE FUNCTION public.find_appointment_conflicts(
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_end_date TIMESTAMP WITH TIME ZONE,
+  p_exclude_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.appointments AS $$
+  SELECT *
+  FROM public.appointments
+  WHERE status = 'scheduled'
+    AND (p_exclude_id IS NULL OR id <> p_exclude_id)
+    AND tstzrange(start_date, end_date) && tstzrange(p_start_date, p_end_date)
+  ORDER BY start_date;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,100 @@
+-- Vínculo entre a receita no caixa e o agendamento que a originou
+
+ALTER TABLE public.transactions
+  ADD COLUMN appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+-- Cada agendamento gera no máximo uma receita
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_appointment_id_key UNIQUE (appointment_id);
+
+-- A assinatura muda, então a versão anterior precisa ser removida
+DROP FUNCTION IF EXISTS public.save_appointment(JSONB, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.save_appointment(
+  p_appointment JSONB,
+  p_services JSONB DEFAULT '[]'::jsonb,
+  p_register_income BOOLEAN DEFAULT false,
+  p_reverse_income BOOLEAN DEFAULT false
+)
+RETURNS public.appointments AS $$
+DECLARE
+  saved public.appointments;
+  total NUMERIC(12,2);
+  client_name TEXT;
+  income_description TEXT;
+  income_date DATE;
+BEGIN
+  IF p_appointment->>'id' IS NULL THEN
+    INSERT INTO public.appointments (
+      title, description, client_id, start_date, end_date, location, status, allow_overlap
+    ) VALUES (
+      p_appointment->>'title',
+      NULLIF(p_appointment->>'description', ''),
+      NULLIF(p_appointment->>'client_id', '')::uuid,
+      (p_appointment->>'start_date')::timestamptz,
+      (p_appointment->>'end_date')::timestamptz,
+      NULLIF(p_appointment->>'location', ''),
+      COALESCE(p_appointment->>'status', 'scheduled'),
+      COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE public.appointments SET
+      title = p_appointment->>'title',
+      description = NULLIF(p_appointment->>'description', ''),
+      client_id = NULLIF(p_appointment->>'client_id', '')::uuid,
+      start_date = (p_appointment->>'start_date')::timestamptz,
+      end_date = (p_appointment->>'end_date')::timestamptz,
+      location = NULLIF(p_appointment->>'location', ''),
+      status = COALESCE(p_appointment->>'status', 'scheduled'),
+      allow_overlap = COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    WHERE id = (p_appointment->>'id')::uuid
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Agendamento % não encontrado', p_appointment->>'id'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.appointment_services WHERE appointment_id = saved.id;
+  END IF;
+
+  INSERT INTO public.appointment_services (appointment_id, service_id, price, quantity)
+  SELECT
+    saved.id,
+    (item->>'service_id')::uuid,
+    (item->>'price')::numeric,
+    COALESCE((item->>'quantity')::integer, 1)
+  FROM jsonb_array_elements(p_services) AS item
+  WHERE NULLIF(item->>'service_id', '') IS NOT NULL;
+
+  IF p_register_income THEN
+    SELECT COALESCE(SUM(price * quantity), 0) INTO total
+    FROM public.appointment_services
+    WHERE appointment_id = saved.id;
+
+    IF total > 0 THEN
+      SELECT name INTO client_name FROM public.clients WHERE id = saved.client_id;
+      income_description := 'Receita do agendamento: ' || saved.title || COALESCE(' - ' || client_name, '');
+      income_date := (saved.start_date AT TIME ZONE 'America/Sao_Paulo')::date;
+
+      -- Re-salvar um agendamento concluído atualiza a receita já vinculada
+      UPDATE public.transactions SET
+        amount = total,
+        description = income_description,
+        client_id = saved.client_id,
+        transaction_date = income_date
+      WHERE appointment_id = saved.id;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.transactions (type, amount, description, client_id, transaction_date, appointment_id)
+        VALUES ('income', total, income_description, saved.client_id, income_date, saved.id);
+      END IF;
+    END IF;
+  ELSIF p_reverse_income THEN
+    DELETE FROM public.transactions WHERE appointment_id = saved.id;
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
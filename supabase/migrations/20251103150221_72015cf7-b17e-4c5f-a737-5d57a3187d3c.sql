@@ -0,0 +1,42 @@
+-- Gerenciamento de categorias: arquivamento e exclusão com reatribuição
+
+-- Categorias arquivadas somem dos formulários, mas continuam no histórico
+ALTER TABLE public.categories
+  ADD COLUMN archived BOOLEAN NOT NULL DEFAULT false;
+
+-- Move as transações para outra categoria e exclui a original na mesma transação
+CREATE OR REPLACE FUNCTION public.delete_category(
+  p_category_id UUID,
+  p_reassign_to UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  source_type TEXT;
+  target_type TEXT;
+BEGIN
+  SELECT type INTO source_type FROM public.categories WHERE id = p_category_id;
+
+  IF source_type IS NULL THEN
+    RAISE EXCEPTION 'Categoria % não encontrada', p_category_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_reassign_to IS NOT NULL THEN
+    SELECT type INTO target_type FROM public.categories WHERE id = p_reassign_to;
+
+    IF target_type IS DISTINCT FROM source_type OR p_reassign_to = p_category_id THEN
+      RAISE EXCEPTION 'Categoria de destino inválida'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.transactions
+    SET category_id = p_reassign_to
+    WHERE category_id = p_category_id;
+  ELSIF EXISTS (SELECT 1 FROM public.transactions WHERE category_id = p_category_id) THEN
+    RAISE EXCEPTION 'Categoria possui transações; reatribua-as antes de excluir'
+      USING ERRCODE = '23503';
+  END IF;
+
+  DELETE FROM public.categories WHERE id = p_category_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
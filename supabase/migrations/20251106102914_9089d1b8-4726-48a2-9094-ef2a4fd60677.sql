@@ -0,0 +1,127 @@
+-- Transações recorrentes (aluguel, assinaturas, planos de software)
+
+-- Regras de recorrência
+CREATE TABLE public.recurring_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  amount DECIMAL(12,2) NOT NULL,
+  description TEXT NOT NULL,
+  category_id UUID REFERENCES public.categories(id),
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Ajustes de uma ocorrência específica (pular ou alterar valor/descrição)
+CREATE TABLE public.recurring_transaction_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_id UUID NOT NULL REFERENCES public.recurring_transactions(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  skipped BOOLEAN NOT NULL DEFAULT false,
+  amount DECIMAL(12,2),
+  description TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (recurring_id, occurrence_date)
+);
+
+-- Transações geradas guardam a regra e a data da ocorrência
+ALTER TABLE public.transactions
+  ADD COLUMN recurring_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN occurrence_date DATE;
+
+CREATE UNIQUE INDEX idx_transactions_recurring_occurrence
+  ON public.transactions(recurring_id, occurrence_date)
+  WHERE recurring_id IS NOT NULL;
+
+CREATE INDEX idx_recurring_transactions_owner_id ON public.recurring_transactions(owner_id);
+CREATE INDEX idx_recurring_transaction_overrides_owner_id ON public.recurring_transaction_overrides(owner_id);
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+  BEFORE UPDATE ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_recurring_transactions_owner_id
+  BEFORE INSERT ON public.recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_recurring_transaction_overrides_owner_id
+  BEFORE INSERT ON public.recurring_transaction_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_transaction_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their recurring_transactions" ON public.recurring_transactions
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their recurring_transaction_overrides" ON public.recurring_transaction_overrides
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Gera as transações vencidas até p_until; pode ser chamada repetidamente sem duplicar
+CREATE OR REPLACE FUNCTION public.generate_recurring_transactions(
+  p_until DATE DEFAULT CURRENT_DATE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  generated INTEGER;
+BEGIN
+  WITH occurrences AS (
+    SELECT
+      r.*,
+      (r.start_date + n * CASE r.frequency
+        WHEN 'weekly' THEN INTERVAL '1 week'
+        WHEN 'monthly' THEN INTERVAL '1 month'
+        WHEN 'quarterly' THEN INTERVAL '3 months'
+        ELSE INTERVAL '1 year'
+      END)::date AS occurrence
+    FROM public.recurring_transactions r
+    CROSS JOIN LATERAL generate_series(
+      0,
+      CASE r.frequency
+        WHEN 'weekly' THEN (LEAST(COALESCE(r.end_date, p_until), p_until) - r.start_date) / 7
+        WHEN 'monthly' THEN (EXTRACT(YEAR FROM age(LEAST(COALESCE(r.end_date, p_until), p_until), r.start_date)) * 12
+          + EXTRACT(MONTH FROM age(LEAST(COALESCE(r.end_date, p_until), p_until), r.start_date)))::integer
+        WHEN 'quarterly' THEN (EXTRACT(YEAR FROM age(LEAST(COALESCE(r.end_date, p_until), p_until), r.start_date)) * 4
+          + EXTRACT(MONTH FROM age(LEAST(COALESCE(r.end_date, p_until), p_until), r.start_date)) / 3)::integer
+        ELSE EXTRACT(YEAR FROM age(LEAST(COALESCE(r.end_date, p_until), p_until), r.start_date))::integer
+      END
+    ) AS n
+    WHERE r.active AND r.start_date <= p_until
+  ),
+  inserted AS (
+    INSERT INTO public.transactions (
+      type, amount, description, category_id, transaction_date, recurring_id, occurrence_date
+    )
+    SELECT
+      o.type,
+      COALESCE(ov.amount, o.amount),
+      COALESCE(ov.description, o.description),
+      o.category_id,
+      o.occurrence,
+      o.id,
+      o.occurrence
+    FROM occurrences o
+    LEFT JOIN public.recurring_transaction_overrides ov
+      ON ov.recurring_id = o.id AND ov.occurrence_date = o.occurrence
+    WHERE o.occurrence <= p_until
+      AND (o.end_date IS NULL OR o.occurrence <= o.end_date)
+      AND NOT COALESCE(ov.skipped, false)
+    ON CONFLICT (recurring_id, occurrence_date) WHERE recurring_id IS NOT NULL DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO generated FROM inserted;
+
+  RETURN generated;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,221 @@
+-- Plano de pagamento do agendamento: entrada + parcelas como contas a receber
+
+CREATE TABLE public.receivables (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES public.clients(id),
+  kind TEXT NOT NULL DEFAULT 'installment' CHECK (kind IN ('deposit', 'installment')),
+  installment_number INTEGER NOT NULL DEFAULT 1,
+  description TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  due_date DATE NOT NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Pagamentos de uma parcela entram no caixa como receitas vinculadas a ela
+ALTER TABLE public.transactions
+  ADD COLUMN receivable_id UUID REFERENCES public.receivables(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_receivables_appointment_id ON public.receivables(appointment_id);
+CREATE INDEX idx_receivables_owner_id ON public.receivables(owner_id);
+CREATE INDEX idx_transactions_receivable_id ON public.transactions(receivable_id);
+
+CREATE TRIGGER update_receivables_updated_at
+  BEFORE UPDATE ON public.receivables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_receivables_owner_id
+  BEFORE INSERT ON public.receivables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.receivables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their receivables" ON public.receivables
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Registra o pagamento de uma parcela; sem valor informado, quita o saldo restante
+CREATE OR REPLACE FUNCTION public.pay_receivable(
+  p_receivable_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_paid_at DATE DEFAULT CURRENT_DATE
+)
+RETURNS public.transactions AS $$
+DECLARE
+  receivable public.receivables;
+  appointment_title TEXT;
+  remaining NUMERIC(12,2);
+  payment public.transactions;
+BEGIN
+  SELECT * INTO receivable FROM public.receivables WHERE id = p_receivable_id FOR UPDATE;
+
+  IF receivable.id IS NULL THEN
+    RAISE EXCEPTION 'Parcela % não encontrada', p_receivable_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT receivable.amount - COALESCE(SUM(amount), 0) INTO remaining
+  FROM public.transactions
+  WHERE receivable_id = receivable.id;
+
+  IF remaining <= 0 THEN
+    RAISE EXCEPTION 'Parcela já está quitada'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NOT NULL AND (p_amount <= 0 OR p_amount > remaining) THEN
+    RAISE EXCEPTION 'Valor do pagamento deve estar entre 0 e %', remaining
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT title INTO appointment_title FROM public.appointments WHERE id = receivable.appointment_id;
+
+  INSERT INTO public.transactions (type, amount, description, client_id, transaction_date, receivable_id)
+  VALUES (
+    'income',
+    COALESCE(p_amount, remaining),
+    receivable.description || COALESCE(' - ' || appointment_title, ''),
+    receivable.client_id,
+    p_paid_at,
+    receivable.id
+  )
+  RETURNING * INTO payment;
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- save_appointment passa a gravar o plano de pagamento na mesma transação
+DROP FUNCTION IF EXISTS public.save_appointment(JSONB, JSONB, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.save_appointment(
+  p_appointment JSONB,
+  p_services JSONB DEFAULT '[]'::jsonb,
+  p_register_income BOOLEAN DEFAULT false,
+  p_reverse_income BOOLEAN DEFAULT false,
+  p_payment_plan JSONB DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+  saved public.appointments;
+  total NUMERIC(12,2);
+  client_name TEXT;
+  income_description TEXT;
+  income_date DATE;
+BEGIN
+  IF p_appointment->>'id' IS NULL THEN
+    INSERT INTO public.appointments (
+      title, description, client_id, start_date, end_date, location, status, allow_overlap
+    ) VALUES (
+      p_appointment->>'title',
+      NULLIF(p_appointment->>'description', ''),
+      NULLIF(p_appointment->>'client_id', '')::uuid,
+      (p_appointment->>'start_date')::timestamptz,
+      (p_appointment->>'end_date')::timestamptz,
+      NULLIF(p_appointment->>'location', ''),
+      COALESCE(p_appointment->>'status', 'scheduled'),
+      COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE public.appointments SET
+      title = p_appointment->>'title',
+      description = NULLIF(p_appointment->>'description', ''),
+      client_id = NULLIF(p_appointment->>'client_id', '')::uuid,
+      start_date = (p_appointment->>'start_date')::timestamptz,
+      end_date = (p_appointment->>'end_date')::timestamptz,
+      location = NULLIF(p_appointment->>'location', ''),
+      status = COALESCE(p_appointment->>'status', 'scheduled'),
+      allow_overlap = COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    WHERE id = (p_appointment->>'id')::uuid
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Agendamento % não encontrado', p_appointment->>'id'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.appointment_services WHERE appointment_id = saved.id;
+  END IF;
+
+  INSERT INTO public.appointment_services (appointment_id, service_id, price, quantity)
+  SELECT
+    saved.id,
+    (item->>'service_id')::uuid,
+    (item->>'price')::numeric,
+    COALESCE((item->>'quantity')::integer, 1)
+  FROM jsonb_array_elements(p_services) AS item
+  WHERE NULLIF(item->>'service_id', '') IS NOT NULL;
+
+  -- NULL mantém o plano atual; um array (mesmo vazio) substitui as parcelas
+  IF p_payment_plan IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.receivables r ON r.id = t.receivable_id
+      WHERE r.appointment_id = saved.id
+    ) THEN
+      RAISE EXCEPTION 'O plano de pagamento já possui parcelas pagas'
+        USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.receivables WHERE appointment_id = saved.id;
+
+    INSERT INTO public.receivables (
+      appointment_id, client_id, kind, installment_number, description, amount, due_date
+    )
+    SELECT
+      saved.id,
+      saved.client_id,
+      COALESCE(item->>'kind', 'installment'),
+      COALESCE((item->>'installment_number')::integer, 1),
+      item->>'description',
+      (item->>'amount')::numeric,
+      (item->>'due_date')::date
+    FROM jsonb_array_elements(p_payment_plan) AS item;
+
+    -- A receita única do agendamento dá lugar às parcelas, evitando contar duas vezes
+    IF jsonb_array_length(p_payment_plan) > 0 THEN
+      DELETE FROM public.transactions WHERE appointment_id = saved.id;
+    END IF;
+  ELSE
+    UPDATE public.receivables SET client_id = saved.client_id
+    WHERE appointment_id = saved.id AND client_id IS DISTINCT FROM saved.client_id;
+  END IF;
+
+  -- Com plano de pagamento, a receita entra no caixa parcela a parcela
+  IF p_register_income AND NOT EXISTS (
+    SELECT 1 FROM public.receivables WHERE appointment_id = saved.id
+  ) THEN
+    SELECT COALESCE(SUM(price * quantity), 0) INTO total
+    FROM public.appointment_services
+    WHERE appointment_id = saved.id;
+
+    IF total > 0 THEN
+      SELECT name INTO client_name FROM public.clients WHERE id = saved.client_id;
+      income_description := 'Receita do agendamento: ' || saved.title || COALESCE(' - ' || client_name, '');
+      income_date := (saved.start_date AT TIME ZONE 'America/Sao_Paulo')::date;
+
+      -- Re-salvar um agendamento concluído atualiza a receita já vinculada
+      UPDATE public.transactions SET
+        amount = total,
+        description = income_description,
+        client_id = saved.client_id,
+        transaction_date = income_date
+      WHERE appointment_id = saved.id;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.transactions (type, amount, description, client_id, transaction_date, appointment_id)
+        VALUES ('income', total, income_description, saved.client_id, income_date, saved.id);
+      END IF;
+    END IF;
+  ELSIF p_reverse_income THEN
+    DELETE FROM public.transactions WHERE appointment_id = saved.id;
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,4 @@
+-- Contas a receber: consultas por cliente e por vencimento
+
+CREATE INDEX idx_receivables_client_id ON public.receivables(client_id);
+CREATE INDEX idx_receivables_due_date ON public.receivables(due_date);
@@ -0,0 +1,118 @@
+-- Orçamentos (propostas) com itens de serviço, desconto e validade
+
+CREATE TABLE public.quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  client_id UUID REFERENCES public.clients(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'rejected')),
+  discount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  valid_until DATE,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Itens do orçamento, no mesmo formato de appointment_services
+CREATE TABLE public.quote_services (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.services(id),
+  price DECIMAL(10,2),
+  quantity INTEGER DEFAULT 1,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quotes_owner_id ON public.quotes(owner_id);
+CREATE INDEX idx_quotes_client_id ON public.quotes(client_id);
+CREATE INDEX idx_quote_services_quote_id ON public.quote_services(quote_id);
+CREATE INDEX idx_quote_services_owner_id ON public.quote_services(owner_id);
+
+CREATE TRIGGER update_quotes_updated_at
+  BEFORE UPDATE ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_quotes_owner_id
+  BEFORE INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_quote_services_owner_id
+  BEFORE INSERT ON public.quote_services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quote_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their quotes" ON public.quotes
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- O orçamento vinculado também precisa ser do usuário
+CREATE POLICY "Owners manage their quote_services" ON public.quote_services
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.quotes q
+      WHERE q.id = quote_id AND q.owner_id = auth.uid()
+    )
+  );
+
+-- Salvamento atômico do orçamento e seus itens
+CREATE OR REPLACE FUNCTION public.save_quote(
+  p_quote JSONB,
+  p_services JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.quotes AS $$
+DECLARE
+  saved public.quotes;
+BEGIN
+  IF p_quote->>'id' IS NULL THEN
+    INSERT INTO public.quotes (
+      title, description, client_id, status, discount, valid_until
+    ) VALUES (
+      p_quote->>'title',
+      NULLIF(p_quote->>'description', ''),
+      NULLIF(p_quote->>'client_id', '')::uuid,
+      COALESCE(p_quote->>'status', 'draft'),
+      COALESCE((p_quote->>'discount')::numeric, 0),
+      NULLIF(p_quote->>'valid_until', '')::date
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE public.quotes SET
+      title = p_quote->>'title',
+      description = NULLIF(p_quote->>'description', ''),
+      client_id = NULLIF(p_quote->>'client_id', '')::uuid,
+      status = COALESCE(p_quote->>'status', 'draft'),
+      discount = COALESCE((p_quote->>'discount')::numeric, 0),
+      valid_until = NULLIF(p_quote->>'valid_until', '')::date
+    WHERE id = (p_quote->>'id')::uuid
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Orçamento % não encontrado', p_quote->>'id'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.quote_services WHERE quote_id = saved.id;
+  END IF;
+
+  INSERT INTO public.quote_services (quote_id, service_id, price, quantity)
+  SELECT
+    saved.id,
+    (item->>'service_id')::uuid,
+    (item->>'price')::numeric,
+    COALESCE((item->>'quantity')::integer, 1)
+  FROM jsonb_array_elements(p_services) AS item
+  WHERE NULLIF(item->>'service_id', '') IS NOT NULL;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,196 @@
+-- Recibos e faturas emitidos no navegador, com numeração sequencial por usuário
+
+-- Dados do estúdio impressos no cabeçalho dos documentos (um registro por usuário)
+CREATE TABLE public.studio_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  studio_name TEXT,
+  document TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  owner_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Documentos guardam uma cópia dos itens para que a segunda via saia idêntica
+CREATE TABLE public.documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('receipt', 'invoice')),
+  number INTEGER NOT NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  client_name TEXT,
+  description TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total DECIMAL(12,2) NOT NULL,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, kind, number)
+);
+
+CREATE UNIQUE INDEX idx_documents_receipt_transaction
+  ON public.documents(transaction_id)
+  WHERE kind = 'receipt' AND transaction_id IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_documents_invoice_appointment
+  ON public.documents(appointment_id)
+  WHERE kind = 'invoice' AND appointment_id IS NOT NULL;
+
+CREATE INDEX idx_documents_owner_id ON public.documents(owner_id);
+
+CREATE TRIGGER update_studio_settings_updated_at
+  BEFORE UPDATE ON public.studio_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_studio_settings_owner_id
+  BEFORE INSERT ON public.studio_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+CREATE TRIGGER set_documents_owner_id
+  BEFORE INSERT ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.studio_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their studio_settings" ON public.studio_settings
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Documentos emitidos não são editados: só leitura e exclusão pelo dono
+CREATE POLICY "Owners read their documents" ON public.documents
+  FOR SELECT TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners delete their documents" ON public.documents
+  FOR DELETE TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners insert their documents" ON public.documents
+  FOR INSERT TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+-- Emite (ou devolve, se já emitido) o recibo de uma receita ou a fatura de um agendamento concluído
+CREATE OR REPLACE FUNCTION public.issue_document(
+  p_transaction_id UUID DEFAULT NULL,
+  p_appointment_id UUID DEFAULT NULL
+)
+RETURNS public.documents AS $$
+DECLARE
+  issued public.documents;
+  doc_kind TEXT;
+  transaction_row public.transactions;
+  appointment_row public.appointments;
+  doc_items JSONB;
+  items_total NUMERIC(12,2);
+  doc_total NUMERIC(12,2);
+  doc_description TEXT;
+  doc_client_id UUID;
+  doc_date DATE;
+  next_number INTEGER;
+BEGIN
+  IF (p_transaction_id IS NULL) = (p_appointment_id IS NULL) THEN
+    RAISE EXCEPTION 'Informe uma transação ou um agendamento'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_id IS NOT NULL THEN
+    doc_kind := 'receipt';
+    SELECT * INTO issued FROM public.documents
+    WHERE kind = doc_kind AND transaction_id = p_transaction_id;
+  ELSE
+    doc_kind := 'invoice';
+    SELECT * INTO issued FROM public.documents
+    WHERE kind = doc_kind AND appointment_id = p_appointment_id;
+  END IF;
+
+  IF issued.id IS NOT NULL THEN
+    RETURN issued;
+  END IF;
+
+  IF p_transaction_id IS NOT NULL THEN
+    SELECT * INTO transaction_row FROM public.transactions WHERE id = p_transaction_id;
+
+    IF transaction_row.id IS NULL OR transaction_row.type <> 'income' THEN
+      RAISE EXCEPTION 'Receita % não encontrada', p_transaction_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO appointment_row FROM public.appointments WHERE id = transaction_row.appointment_id;
+    doc_total := transaction_row.amount;
+    doc_description := transaction_row.description;
+    doc_client_id := transaction_row.client_id;
+    doc_date := transaction_row.transaction_date;
+  ELSE
+    SELECT * INTO appointment_row FROM public.appointments WHERE id = p_appointment_id;
+
+    IF appointment_row.id IS NULL OR appointment_row.status <> 'completed' THEN
+      RAISE EXCEPTION 'Agendamento concluído % não encontrado', p_appointment_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    doc_description := appointment_row.title;
+    doc_client_id := appointment_row.client_id;
+    doc_date := CURRENT_DATE;
+  END IF;
+
+  IF appointment_row.id IS NOT NULL THEN
+    SELECT
+      COALESCE(jsonb_agg(jsonb_build_object(
+        'description', s.name,
+        'quantity', aps.quantity,
+        'price', aps.price
+      ) ORDER BY aps.created_at), '[]'::jsonb),
+      COALESCE(SUM(aps.price * aps.quantity), 0)
+    INTO doc_items, items_total
+    FROM public.appointment_services aps
+    JOIN public.services s ON s.id = aps.service_id
+    WHERE aps.appointment_id = appointment_row.id;
+  END IF;
+
+  IF doc_kind = 'invoice' THEN
+    doc_total := items_total;
+  END IF;
+
+  -- Sem itens (ou com valor editado no caixa), o recibo tem uma única linha com a própria receita
+  IF doc_items IS NULL OR items_total IS DISTINCT FROM doc_total THEN
+    doc_items := jsonb_build_array(jsonb_build_object(
+      'description', doc_description,
+      'quantity', 1,
+      'price', doc_total
+    ));
+  END IF;
+
+  -- Serializa a numeração do usuário para não repetir números em emissões simultâneas
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || doc_kind));
+
+  SELECT COALESCE(MAX(number), 0) + 1 INTO next_number
+  FROM public.documents
+  WHERE owner_id = auth.uid() AND kind = doc_kind;
+
+  INSERT INTO public.documents (
+    kind, number, transaction_id, appointment_id, client_id, client_name,
+    description, items, total, issue_date
+  ) VALUES (
+    doc_kind,
+    next_number,
+    p_transaction_id,
+    appointment_row.id,
+    doc_client_id,
+    (SELECT name FROM public.clients WHERE id = doc_client_id),
+    doc_description,
+    doc_items,
+    doc_total,
+    doc_date
+  )
+  RETURNING * INTO issued;
+
+  RETURN issued;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,6 @@
+-- Chave Pix e dados do recebedor para gerar cobranças (BR Code) sem serviço externo
+
+ALTER TABLE public.studio_settings
+  ADD COLUMN pix_key TEXT,
+  ADD COLUMN pix_merchant_name TEXT,
+  ADD COLUMN pix_merchant_city TEXT;
@@ -0,0 +1,8 @@
+-- Identificador da linha do extrato bancário (FITID do OFX ou assinatura da linha do CSV),
+-- para que importar o mesmo extrato duas vezes não duplique lançamentos
+
+ALTER TABLE public.transactions
+  ADD COLUMN import_id TEXT;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_owner_import_id_key UNIQUE (owner_id, import_id);
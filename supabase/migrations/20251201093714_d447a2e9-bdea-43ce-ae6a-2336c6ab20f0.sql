@@ -0,0 +1,125 @@
+-- Conciliação bancária: linhas do extrato ficam salvas e cada uma pode ser
+-- vinculada a no máximo um lançamento do caixa
+
+CREATE TABLE public.statement_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_id TEXT NOT NULL,
+  line_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  transaction_id UUID UNIQUE REFERENCES public.transactions(id) ON DELETE SET NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, import_id)
+);
+
+ALTER TABLE public.transactions
+  ADD COLUMN reconciled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN reconciled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_statement_lines_owner_date ON public.statement_lines(owner_id, line_date);
+
+CREATE TRIGGER update_statement_lines_updated_at
+  BEFORE UPDATE ON public.statement_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_statement_lines_owner_id
+  BEFORE INSERT ON public.statement_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their statement lines" ON public.statement_lines
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Lançamento excluído deixa a linha do extrato pendente de novo (ON DELETE SET NULL);
+-- desvincular manualmente também desfaz a marcação no lançamento
+CREATE OR REPLACE FUNCTION public.unreconcile_statement_line(p_statement_line_id UUID)
+RETURNS void AS $$
+DECLARE
+  linked_transaction_id UUID;
+BEGIN
+  SELECT transaction_id INTO linked_transaction_id
+  FROM public.statement_lines
+  WHERE id = p_statement_line_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Linha do extrato % não encontrada', p_statement_line_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.statement_lines SET transaction_id = NULL WHERE id = p_statement_line_id;
+
+  UPDATE public.transactions SET reconciled = false, reconciled_at = NULL
+  WHERE id = linked_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Concilia a linha com um lançamento existente ou, sem lançamento informado,
+-- cria a partir da própria linha (tarifas, rendimentos etc.)
+CREATE OR REPLACE FUNCTION public.reconcile_statement_line(
+  p_statement_line_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  line public.statement_lines;
+  reconciled_transaction public.transactions;
+BEGIN
+  SELECT * INTO line FROM public.statement_lines WHERE id = p_statement_line_id FOR UPDATE;
+
+  IF line.id IS NULL THEN
+    RAISE EXCEPTION 'Linha do extrato % não encontrada', p_statement_line_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF line.transaction_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Linha do extrato já está conciliada'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_id IS NULL THEN
+    INSERT INTO public.transactions (type, amount, description, category_id, transaction_date)
+    VALUES (
+      CASE WHEN line.amount > 0 THEN 'income' ELSE 'expense' END,
+      abs(line.amount),
+      line.description,
+      p_category_id,
+      line.line_date
+    )
+    RETURNING * INTO reconciled_transaction;
+  ELSE
+    SELECT * INTO reconciled_transaction FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF reconciled_transaction.id IS NULL THEN
+      RAISE EXCEPTION 'Transação % não encontrada', p_transaction_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF reconciled_transaction.reconciled THEN
+      RAISE EXCEPTION 'Transação já está conciliada'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF (reconciled_transaction.type = 'income') <> (line.amount > 0)
+      OR reconciled_transaction.amount <> abs(line.amount) THEN
+      RAISE EXCEPTION 'Valor da transação não confere com a linha do extrato'
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE public.transactions SET reconciled = true, reconciled_at = now()
+  WHERE id = reconciled_transaction.id
+  RETURNING * INTO reconciled_transaction;
+
+  UPDATE public.statement_lines SET transaction_id = reconciled_transaction.id WHERE id = line.id;
+
+  RETURN reconciled_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,191 @@
+-- Contas financeiras (conta corrente, dinheiro, cartão) com saldo inicial próprio
+
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'checking' CHECK (kind IN ('checking', 'cash', 'card')),
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No máximo uma conta padrão por usuário
+CREATE UNIQUE INDEX idx_accounts_owner_default ON public.accounts(owner_id) WHERE is_default;
+
+CREATE TRIGGER update_accounts_updated_at
+  BEFORE UPDATE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_accounts_owner_id
+  BEFORE INSERT ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their accounts" ON public.accounts
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Transferência é um par de lançamentos (saída e entrada) com o mesmo transfer_id.
+-- Como não são receita nem despesa, ficam fora dos totais, relatórios e categorias.
+ALTER TABLE public.transactions
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id),
+  ADD COLUMN transfer_id UUID;
+
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_type_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_type_check
+    CHECK (type IN ('income', 'expense', 'transfer_in', 'transfer_out')),
+  ADD CONSTRAINT transactions_transfer_id_check
+    CHECK ((transfer_id IS NOT NULL) = (type IN ('transfer_in', 'transfer_out')));
+
+CREATE INDEX idx_transactions_account_id ON public.transactions(account_id);
+CREATE INDEX idx_transactions_transfer_id ON public.transactions(transfer_id);
+
+-- O extrato conciliado pertence a uma conta
+ALTER TABLE public.statement_lines
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE;
+
+-- Quem já tem lançamentos ganha uma conta principal com todo o histórico
+INSERT INTO public.accounts (name, kind, is_default, owner_id)
+SELECT DISTINCT 'Conta principal', 'checking', true, owner_id
+FROM public.transactions
+WHERE owner_id IS NOT NULL;
+
+UPDATE public.transactions t SET account_id = a.id
+FROM public.accounts a
+WHERE a.owner_id = t.owner_id AND a.is_default;
+
+UPDATE public.statement_lines l SET account_id = a.id
+FROM public.accounts a
+WHERE a.owner_id = l.owner_id AND a.is_default;
+
+-- Lançamentos sem conta (recorrências, parcelas, agendamentos) vão para a conta padrão
+CREATE OR REPLACE FUNCTION public.set_default_account_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.account_id IS NULL THEN
+    SELECT id INTO NEW.account_id
+    FROM public.accounts
+    WHERE owner_id = COALESCE(NEW.owner_id, auth.uid()) AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_transactions_account_id
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_account_id();
+
+CREATE OR REPLACE FUNCTION public.create_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_transfer_date DATE DEFAULT CURRENT_DATE,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  from_account public.accounts;
+  to_account public.accounts;
+  new_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Contas de origem e destino devem ser diferentes'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor da transferência deve ser maior que zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO from_account FROM public.accounts WHERE id = p_from_account_id;
+  SELECT * INTO to_account FROM public.accounts WHERE id = p_to_account_id;
+
+  IF from_account.id IS NULL OR to_account.id IS NULL THEN
+    RAISE EXCEPTION 'Conta não encontrada'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.transactions (type, amount, description, transaction_date, account_id, transfer_id)
+  VALUES
+    ('transfer_out', p_amount, COALESCE(NULLIF(p_description, ''), 'Transferência para ' || to_account.name),
+      p_transfer_date, from_account.id, new_transfer_id),
+    ('transfer_in', p_amount, COALESCE(NULLIF(p_description, ''), 'Transferência de ' || from_account.name),
+      p_transfer_date, to_account.id, new_transfer_id);
+
+  RETURN new_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Conciliação passa a aceitar transferências e lança na conta do extrato
+CREATE OR REPLACE FUNCTION public.reconcile_statement_line(
+  p_statement_line_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  line public.statement_lines;
+  reconciled_transaction public.transactions;
+BEGIN
+  SELECT * INTO line FROM public.statement_lines WHERE id = p_statement_line_id FOR UPDATE;
+
+  IF line.id IS NULL THEN
+    RAISE EXCEPTION 'Linha do extrato % não encontrada', p_statement_line_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF line.transaction_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Linha do extrato já está conciliada'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_id IS NULL THEN
+    INSERT INTO public.transactions (type, amount, description, category_id, transaction_date, account_id)
+    VALUES (
+      CASE WHEN line.amount > 0 THEN 'income' ELSE 'expense' END,
+      abs(line.amount),
+      line.description,
+      p_category_id,
+      line.line_date,
+      line.account_id
+    )
+    RETURNING * INTO reconciled_transaction;
+  ELSE
+    SELECT * INTO reconciled_transaction FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF reconciled_transaction.id IS NULL THEN
+      RAISE EXCEPTION 'Transação % não encontrada', p_transaction_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF reconciled_transaction.reconciled THEN
+      RAISE EXCEPTION 'Transação já está conciliada'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF (reconciled_transaction.type IN ('income', 'transfer_in')) <> (line.amount > 0)
+      OR reconciled_transaction.amount <> abs(line.amount) THEN
+      RAISE EXCEPTION 'Valor da transação não confere com a linha do extrato'
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE public.transactions SET reconciled = true, reconciled_at = now()
+  WHERE id = reconciled_transaction.id
+  RETURNING * INTO reconciled_transaction;
+
+  UPDATE public.statement_lines SET transaction_id = reconciled_transaction.id WHERE id = line.id;
+
+  RETURN reconciled_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,122 @@
+-- Faturas de cartão: compras no cartão pesam no caixa no vencimento da fatura
+
+ALTER TABLE public.accounts
+  ADD COLUMN closing_day INTEGER CHECK (closing_day BETWEEN 1 AND 31),
+  ADD COLUMN due_day INTEGER CHECK (due_day BETWEEN 1 AND 31);
+
+UPDATE public.accounts SET closing_day = 1, due_day = 10 WHERE kind = 'card';
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_card_days_check
+    CHECK (kind <> 'card' OR (closing_day IS NOT NULL AND due_day IS NOT NULL));
+
+-- Compras no cartão guardam o vencimento da fatura em que caíram; pagamentos da
+-- fatura (transferências para o cartão) guardam o vencimento da fatura que quitam
+ALTER TABLE public.transactions
+  ADD COLUMN invoice_due_date DATE;
+
+CREATE INDEX idx_transactions_invoice_due_date ON public.transactions(account_id, invoice_due_date);
+
+-- Compras a partir do dia do fechamento entram na fatura seguinte. Dias que não
+-- existem no mês (31 em fevereiro) caem no último dia.
+CREATE OR REPLACE FUNCTION public.card_invoice_due_date(
+  p_purchase_date DATE,
+  p_closing_day INTEGER,
+  p_due_day INTEGER
+)
+RETURNS DATE AS $$
+DECLARE
+  closing_month DATE := date_trunc('month', p_purchase_date)::date;
+  due_month DATE;
+BEGIN
+  IF p_purchase_date >= closing_month + LEAST(p_closing_day, extract(day FROM closing_month + interval '1 month - 1 day')::int) - 1 THEN
+    closing_month := (closing_month + interval '1 month')::date;
+  END IF;
+
+  due_month := CASE
+    WHEN p_due_day > p_closing_day THEN closing_month
+    ELSE (closing_month + interval '1 month')::date
+  END;
+
+  RETURN due_month + LEAST(p_due_day, extract(day FROM due_month + interval '1 month - 1 day')::int) - 1;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_card_invoice_due_date()
+RETURNS TRIGGER AS $$
+DECLARE
+  card public.accounts;
+BEGIN
+  IF NEW.type IN ('income', 'expense') THEN
+    SELECT * INTO card FROM public.accounts WHERE id = NEW.account_id AND kind = 'card';
+
+    NEW.invoice_due_date := CASE
+      WHEN card.id IS NULL THEN NULL
+      ELSE public.card_invoice_due_date(NEW.transaction_date, card.closing_day, card.due_day)
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Roda depois de set_transactions_account_id (ordem alfabética), com a conta já definida
+CREATE TRIGGER set_transactions_invoice_due_date
+  BEFORE INSERT OR UPDATE OF account_id, transaction_date, type ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_card_invoice_due_date();
+
+UPDATE public.transactions t
+SET invoice_due_date = public.card_invoice_due_date(t.transaction_date, a.closing_day, a.due_day)
+FROM public.accounts a
+WHERE a.id = t.account_id AND a.kind = 'card' AND t.type IN ('income', 'expense');
+
+-- Paga a fatura com uma transferência da conta de origem para o cartão;
+-- sem valor informado, quita o saldo restante da fatura
+CREATE OR REPLACE FUNCTION public.pay_card_invoice(
+  p_card_account_id UUID,
+  p_from_account_id UUID,
+  p_invoice_due_date DATE,
+  p_amount NUMERIC DEFAULT NULL,
+  p_paid_at DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID AS $$
+DECLARE
+  card public.accounts;
+  remaining NUMERIC(12,2);
+  payment_transfer_id UUID;
+BEGIN
+  SELECT * INTO card FROM public.accounts WHERE id = p_card_account_id;
+
+  IF card.id IS NULL OR card.kind <> 'card' THEN
+    RAISE EXCEPTION 'Cartão % não encontrado', p_card_account_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN type = 'expense' THEN amount ELSE -amount END), 0) INTO remaining
+  FROM public.transactions
+  WHERE account_id = card.id AND invoice_due_date = p_invoice_due_date;
+
+  IF remaining <= 0 THEN
+    RAISE EXCEPTION 'Fatura já está paga'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NOT NULL AND (p_amount <= 0 OR p_amount > remaining) THEN
+    RAISE EXCEPTION 'Valor do pagamento deve estar entre 0 e %', remaining
+      USING ERRCODE = '22023';
+  END IF;
+
+  payment_transfer_id := public.create_transfer(
+    p_from_account_id,
+    card.id,
+    COALESCE(p_amount, remaining),
+    p_paid_at,
+    'Pagamento da fatura ' || card.name || ' ' || to_char(p_invoice_due_date, 'MM/YYYY')
+  );
+
+  UPDATE public.transactions SET invoice_due_date = p_invoice_due_date
+  WHERE transfer_id = payment_transfer_id;
+
+  RETURN payment_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,31 @@
+-- Orçamento mensal por categoria de despesa. O valor vale a partir do mês
+-- informado e segue valendo nos meses seguintes até ser redefinido.
+
+CREATE TABLE public.category_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  month DATE NOT NULL CHECK (extract(day FROM month) = 1),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, category_id, month)
+);
+
+CREATE INDEX idx_category_budgets_category_month ON public.category_budgets(category_id, month);
+
+CREATE TRIGGER update_category_budgets_updated_at
+  BEFORE UPDATE ON public.category_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_category_budgets_owner_id
+  BEFORE INSERT ON public.category_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.category_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their category budgets" ON public.category_budgets
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
@@ -0,0 +1,37 @@
+-- Observações do cliente passam a ser um histórico de anotações com data e hora,
+-- no lugar do campo único clients.notes
+
+CREATE TABLE public.client_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_client_notes_client_created ON public.client_notes(client_id, created_at DESC);
+
+CREATE TRIGGER update_client_notes_updated_at
+  BEFORE UPDATE ON public.client_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_client_notes_owner_id
+  BEFORE INSERT ON public.client_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.client_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their client notes" ON public.client_notes
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- A observação antiga vira a primeira anotação, datada da última edição do cliente
+INSERT INTO public.client_notes (client_id, body, owner_id, created_at, updated_at)
+SELECT id, notes, owner_id, updated_at, updated_at
+FROM public.clients
+WHERE notes IS NOT NULL AND length(trim(notes)) > 0;
+
+ALTER TABLE public.clients DROP COLUMN notes;
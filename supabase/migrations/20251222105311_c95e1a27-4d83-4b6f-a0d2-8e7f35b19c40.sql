@@ -0,0 +1,48 @@
+-- Mescla de clientes duplicados: grava os dados escolhidos no cliente que fica,
+-- move todo o histórico do outro para ele e exclui o duplicado na mesma transação
+CREATE OR REPLACE FUNCTION public.merge_clients(
+  p_keep_id UUID,
+  p_merge_id UUID,
+  p_name TEXT,
+  p_email TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_address TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  merged_archived BOOLEAN;
+BEGIN
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'Escolha dois clientes diferentes para mesclar'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Nome do cliente é obrigatório'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT archived INTO merged_archived FROM public.clients WHERE id = p_merge_id;
+
+  IF merged_archived IS NULL THEN
+    RAISE EXCEPTION 'Cliente % não encontrado', p_merge_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Se um dos dois estava ativo, o cliente mesclado continua ativo
+  UPDATE public.clients
+  SET name = trim(p_name),
+      email = nullif(trim(p_email), ''),
+      phone = nullif(trim(p_phone), ''),
+      address = nullif(trim(p_address), ''),
+      archived = archived AND merged_archived
+  WHERE id = p_keep_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cliente % não encontrado', p_keep_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.delete_client(p_merge_id, p_keep_id);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
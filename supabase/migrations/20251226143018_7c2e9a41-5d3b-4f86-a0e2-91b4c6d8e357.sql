@@ -0,0 +1,57 @@
+-- Etiquetas livres e origem do cliente (como ele chegou até o estúdio)
+ALTER TABLE public.clients
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN lead_source TEXT;
+
+CREATE INDEX idx_clients_tags ON public.clients USING GIN (tags);
+
+-- A mescla passa a somar as etiquetas dos dois cadastros e a manter a origem
+-- do que fica, ou a do duplicado quando o que fica não tem
+CREATE OR REPLACE FUNCTION public.merge_clients(
+  p_keep_id UUID,
+  p_merge_id UUID,
+  p_name TEXT,
+  p_email TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_address TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  merged public.clients%ROWTYPE;
+BEGIN
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'Escolha dois clientes diferentes para mesclar'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Nome do cliente é obrigatório'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO merged FROM public.clients WHERE id = p_merge_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cliente % não encontrado', p_merge_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Se um dos dois estava ativo, o cliente mesclado continua ativo
+  UPDATE public.clients
+  SET name = trim(p_name),
+      email = nullif(trim(p_email), ''),
+      phone = nullif(trim(p_phone), ''),
+      address = nullif(trim(p_address), ''),
+      archived = archived AND merged.archived,
+      tags = ARRAY(SELECT DISTINCT unnest(tags || merged.tags) ORDER BY 1),
+      lead_source = coalesce(lead_source, merged.lead_source)
+  WHERE id = p_keep_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cliente % não encontrado', p_keep_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.delete_client(p_merge_id, p_keep_id);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,70 @@
+-- Excluir uma categoria também move as recorrências e os orçamentos que a usam.
+-- Sem isso, a FK de recurring_transactions barrava a exclusão mesmo com destino
+-- escolhido, e os orçamentos sumiam em cascata sem aviso.
+CREATE OR REPLACE FUNCTION public.delete_category(
+  p_category_id UUID,
+  p_reassign_to UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  source_type TEXT;
+  target_type TEXT;
+BEGIN
+  SELECT type INTO source_type FROM public.categories WHERE id = p_category_id;
+
+  IF source_type IS NULL THEN
+    RAISE EXCEPTION 'Categoria % não encontrada', p_category_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_reassign_to IS NOT NULL THEN
+    SELECT type INTO target_type FROM public.categories WHERE id = p_reassign_to;
+
+    IF target_type IS DISTINCT FROM source_type OR p_reassign_to = p_category_id THEN
+      RAISE EXCEPTION 'Categoria de destino inválida'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.transactions
+    SET category_id = p_reassign_to
+    WHERE category_id = p_category_id;
+
+    UPDATE public.recurring_transactions
+    SET category_id = p_reassign_to
+    WHERE category_id = p_category_id;
+
+    -- Orçamentos valem do mês informado em diante, então em cada mês em que
+    -- qualquer uma das duas tem valor definido o destino passa a ter a soma
+    -- dos valores vigentes de ambas
+    INSERT INTO public.category_budgets (owner_id, category_id, month, amount)
+    SELECT
+      m.owner_id,
+      p_reassign_to,
+      m.month,
+      COALESCE((
+        SELECT b.amount FROM public.category_budgets b
+        WHERE b.category_id = p_category_id AND b.owner_id = m.owner_id AND b.month <= m.month
+        ORDER BY b.month DESC LIMIT 1
+      ), 0) + COALESCE((
+        SELECT b.amount FROM public.category_budgets b
+        WHERE b.category_id = p_reassign_to AND b.owner_id = m.owner_id AND b.month <= m.month
+        ORDER BY b.month DESC LIMIT 1
+      ), 0)
+    FROM (
+      SELECT DISTINCT owner_id, month
+      FROM public.category_budgets
+      WHERE category_id IN (p_category_id, p_reassign_to)
+    ) m
+    ON CONFLICT (owner_id, category_id, month) DO UPDATE SET amount = EXCLUDED.amount;
+
+    DELETE FROM public.category_budgets WHERE category_id = p_category_id;
+  ELSIF EXISTS (SELECT 1 FROM public.transactions WHERE category_id = p_category_id)
+     OR EXISTS (SELECT 1 FROM public.recurring_transactions WHERE category_id = p_category_id)
+     OR EXISTS (SELECT 1 FROM public.category_budgets WHERE category_id = p_category_id) THEN
+    RAISE EXCEPTION 'Categoria possui transações; reatribua-as antes de excluir'
+      USING ERRCODE = '23503';
+  END IF;
+
+  DELETE FROM public.categories WHERE id = p_category_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
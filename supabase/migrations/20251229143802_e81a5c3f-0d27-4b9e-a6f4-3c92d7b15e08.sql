@@ -0,0 +1,162 @@
+-- Receitas lançadas antes do vínculo com o agendamento: associa cada uma ao
+-- agendamento de mesmo dono, cliente, título e data (no fuso de São Paulo), no
+-- máximo uma por agendamento. Sem isso, re-salvar um agendamento concluído antigo
+-- não encontrava a receita e lançava uma segunda.
+WITH candidates AS (
+  SELECT DISTINCT ON (t.id)
+    t.id AS transaction_id,
+    a.id AS appointment_id,
+    t.created_at
+  FROM public.transactions t
+  JOIN public.appointments a
+    ON a.owner_id IS NOT DISTINCT FROM t.owner_id
+   AND a.client_id IS NOT DISTINCT FROM t.client_id
+   AND (a.start_date AT TIME ZONE 'America/Sao_Paulo')::date = t.transaction_date
+   AND starts_with(t.description, 'Receita do agendamento: ' || a.title)
+  WHERE t.type = 'income'
+    AND t.appointment_id IS NULL
+    AND t.receivable_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.transactions linked WHERE linked.appointment_id = a.id)
+  ORDER BY t.id, a.created_at
+),
+chosen AS (
+  SELECT DISTINCT ON (appointment_id) transaction_id, appointment_id
+  FROM candidates
+  ORDER BY appointment_id, created_at
+)
+UPDATE public.transactions t
+SET appointment_id = chosen.appointment_id
+FROM chosen
+WHERE t.id = chosen.transaction_id;
+
+-- Re-salvar um agendamento concluído sem serviços remove a receita vinculada
+CREATE OR REPLACE FUNCTION public.save_appointment(
+  p_appointment JSONB,
+  p_services JSONB DEFAULT '[]'::jsonb,
+  p_register_income BOOLEAN DEFAULT false,
+  p_reverse_income BOOLEAN DEFAULT false,
+  p_payment_plan JSONB DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+  saved public.appointments;
+  total NUMERIC(12,2);
+  client_name TEXT;
+  income_description TEXT;
+  income_date DATE;
+BEGIN
+  IF p_appointment->>'id' IS NULL THEN
+    INSERT INTO public.appointments (
+      title, description, client_id, start_date, end_date, location, status, allow_overlap
+    ) VALUES (
+      p_appointment->>'title',
+      NULLIF(p_appointment->>'description', ''),
+      NULLIF(p_appointment->>'client_id', '')::uuid,
+      (p_appointment->>'start_date')::timestamptz,
+      (p_appointment->>'end_date')::timestamptz,
+      NULLIF(p_appointment->>'location', ''),
+      COALESCE(p_appointment->>'status', 'scheduled'),
+      COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE public.appointments SET
+      title = p_appointment->>'title',
+      description = NULLIF(p_appointment->>'description', ''),
+      client_id = NULLIF(p_appointment->>'client_id', '')::uuid,
+      start_date = (p_appointment->>'start_date')::timestamptz,
+      end_date = (p_appointment->>'end_date')::timestamptz,
+      location = NULLIF(p_appointment->>'location', ''),
+      status = COALESCE(p_appointment->>'status', 'scheduled'),
+      allow_overlap = COALESCE((p_appointment->>'allow_overlap')::boolean, false)
+    WHERE id = (p_appointment->>'id')::uuid
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Agendamento % não encontrado', p_appointment->>'id'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.appointment_services WHERE appointment_id = saved.id;
+  END IF;
+
+  INSERT INTO public.appointment_services (appointment_id, service_id, price, quantity)
+  SELECT
+    saved.id,
+    (item->>'service_id')::uuid,
+    (item->>'price')::numeric,
+    COALESCE((item->>'quantity')::integer, 1)
+  FROM jsonb_array_elements(p_services) AS item
+  WHERE NULLIF(item->>'service_id', '') IS NOT NULL;
+
+  -- NULL mantém o plano atual; um array (mesmo vazio) substitui as parcelas
+  IF p_payment_plan IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.receivables r ON r.id = t.receivable_id
+      WHERE r.appointment_id = saved.id
+    ) THEN
+      RAISE EXCEPTION 'O plano de pagamento já possui parcelas pagas'
+        USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.receivables WHERE appointment_id = saved.id;
+
+    INSERT INTO public.receivables (
+      appointment_id, client_id, kind, installment_number, description, amount, due_date
+    )
+    SELECT
+      saved.id,
+      saved.client_id,
+      COALESCE(item->>'kind', 'installment'),
+      COALESCE((item->>'installment_number')::integer, 1),
+      item->>'description',
+      (item->>'amount')::numeric,
+      (item->>'due_date')::date
+    FROM jsonb_array_elements(p_payment_plan) AS item;
+
+    -- A receita única do agendamento dá lugar às parcelas, evitando contar duas vezes
+    IF jsonb_array_length(p_payment_plan) > 0 THEN
+      DELETE FROM public.transactions WHERE appointment_id = saved.id;
+    END IF;
+  ELSE
+    UPDATE public.receivables SET client_id = saved.client_id
+    WHERE appointment_id = saved.id AND client_id IS DISTINCT FROM saved.client_id;
+  END IF;
+
+  -- Com plano de pagamento, a receita entra no caixa parcela a parcela
+  IF p_register_income AND NOT EXISTS (
+    SELECT 1 FROM public.receivables WHERE appointment_id = saved.id
+  ) THEN
+    SELECT COALESCE(SUM(price * quantity), 0) INTO total
+    FROM public.appointment_services
+    WHERE appointment_id = saved.id;
+
+    IF total > 0 THEN
+      SELECT name INTO client_name FROM public.clients WHERE id = saved.client_id;
+      income_description := 'Receita do agendamento: ' || saved.title || COALESCE(' - ' || client_name, '');
+      income_date := (saved.start_date AT TIME ZONE 'America/Sao_Paulo')::date;
+
+      -- Re-salvar um agendamento concluído atualiza a receita já vinculada
+      UPDATE public.transactions SET
+        amount = total,
+        description = income_description,
+        client_id = saved.client_id,
+        transaction_date = income_date
+      WHERE appointment_id = saved.id;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.transactions (type, amount, description, client_id, transaction_date, appointment_id)
+        VALUES ('income', total, income_description, saved.client_id, income_date, saved.id);
+      END IF;
+    ELSE
+      -- Sem serviços não há receita; a já vinculada não pode ficar com o valor antigo
+      DELETE FROM public.transactions WHERE appointment_id = saved.id;
+    END IF;
+  ELSIF p_reverse_income THEN
+    DELETE FROM public.transactions WHERE appointment_id = saved.id;
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,8 @@
+-- O identificador da linha do extrato só é único dentro da conta: o mesmo FITID ou
+-- a mesma assinatura de CSV em outra conta (outro banco, ou o cartão) é outro lançamento
+ALTER TABLE public.transactions
+  DROP CONSTRAINT transactions_owner_import_id_key;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_owner_account_import_id_key
+  UNIQUE NULLS NOT DISTINCT (owner_id, account_id, import_id);
@@ -0,0 +1,7 @@
+-- Linhas de extrato carregadas na conciliação também são únicas por conta
+ALTER TABLE public.statement_lines
+  DROP CONSTRAINT statement_lines_owner_id_import_id_key;
+
+ALTER TABLE public.statement_lines
+  ADD CONSTRAINT statement_lines_owner_account_import_id_key
+  UNIQUE NULLS NOT DISTINCT (owner_id, account_id, import_id);
@@ -0,0 +1,188 @@
+-- Numeração dos documentos por contador próprio, e não pelo maior número emitido:
+-- excluir o último recibo ou fatura não devolve o número para a próxima emissão
+
+CREATE TABLE public.document_counters (
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  kind TEXT NOT NULL CHECK (kind IN ('receipt', 'invoice')),
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, kind)
+);
+
+INSERT INTO public.document_counters (owner_id, kind, last_number)
+SELECT owner_id, kind, MAX(number)
+FROM public.documents
+WHERE owner_id IS NOT NULL
+GROUP BY owner_id, kind;
+
+CREATE TRIGGER update_document_counters_updated_at
+  BEFORE UPDATE ON public.document_counters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_document_counters_owner_id
+  BEFORE INSERT ON public.document_counters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_owner_id();
+
+ALTER TABLE public.document_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their document_counters" ON public.document_counters
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Cabeçalho do estúdio (e chave Pix) gravado na emissão, para que a segunda via
+-- não mude quando as configurações forem alteradas depois
+ALTER TABLE public.documents
+  ADD COLUMN studio JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Documentos já emitidos ficam com as configurações atuais, a melhor informação disponível
+UPDATE public.documents d
+SET studio = jsonb_build_object(
+  'studio_name', s.studio_name,
+  'document', s.document,
+  'email', s.email,
+  'phone', s.phone,
+  'address', s.address,
+  'pix_key', s.pix_key,
+  'pix_merchant_name', s.pix_merchant_name,
+  'pix_merchant_city', s.pix_merchant_city
+)
+FROM public.studio_settings s
+WHERE s.owner_id = d.owner_id;
+
+-- Emite (ou devolve, se já emitido) o recibo de uma receita ou a fatura de um agendamento concluído
+CREATE OR REPLACE FUNCTION public.issue_document(
+  p_transaction_id UUID DEFAULT NULL,
+  p_appointment_id UUID DEFAULT NULL
+)
+RETURNS public.documents AS $$
+DECLARE
+  issued public.documents;
+  doc_kind TEXT;
+  transaction_row public.transactions;
+  appointment_row public.appointments;
+  doc_items JSONB;
+  items_total NUMERIC(12,2);
+  doc_total NUMERIC(12,2);
+  doc_description TEXT;
+  doc_client_id UUID;
+  doc_date DATE;
+  next_number INTEGER;
+  studio_header JSONB;
+BEGIN
+  IF (p_transaction_id IS NULL) = (p_appointment_id IS NULL) THEN
+    RAISE EXCEPTION 'Informe uma transação ou um agendamento'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_id IS NOT NULL THEN
+    doc_kind := 'receipt';
+    SELECT * INTO issued FROM public.documents
+    WHERE kind = doc_kind AND transaction_id = p_transaction_id;
+  ELSE
+    doc_kind := 'invoice';
+    SELECT * INTO issued FROM public.documents
+    WHERE kind = doc_kind AND appointment_id = p_appointment_id;
+  END IF;
+
+  IF issued.id IS NOT NULL THEN
+    RETURN issued;
+  END IF;
+
+  IF p_transaction_id IS NOT NULL THEN
+    SELECT * INTO transaction_row FROM public.transactions WHERE id = p_transaction_id;
+
+    IF transaction_row.id IS NULL OR transaction_row.type <> 'income' THEN
+      RAISE EXCEPTION 'Receita % não encontrada', p_transaction_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO appointment_row FROM public.appointments WHERE id = transaction_row.appointment_id;
+    doc_total := transaction_row.amount;
+    doc_description := transaction_row.description;
+    doc_client_id := transaction_row.client_id;
+    doc_date := transaction_row.transaction_date;
+  ELSE
+    SELECT * INTO appointment_row FROM public.appointments WHERE id = p_appointment_id;
+
+    IF appointment_row.id IS NULL OR appointment_row.status <> 'completed' THEN
+      RAISE EXCEPTION 'Agendamento concluído % não encontrado', p_appointment_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    doc_description := appointment_row.title;
+    doc_client_id := appointment_row.client_id;
+    doc_date := CURRENT_DATE;
+  END IF;
+
+  IF appointment_row.id IS NOT NULL THEN
+    SELECT
+      COALESCE(jsonb_agg(jsonb_build_object(
+        'description', s.name,
+        'quantity', aps.quantity,
+        'price', aps.price
+      ) ORDER BY aps.created_at), '[]'::jsonb),
+      COALESCE(SUM(aps.price * aps.quantity), 0)
+    INTO doc_items, items_total
+    FROM public.appointment_services aps
+    JOIN public.services s ON s.id = aps.service_id
+    WHERE aps.appointment_id = appointment_row.id;
+  END IF;
+
+  IF doc_kind = 'invoice' THEN
+    doc_total := items_total;
+  END IF;
+
+  -- Sem itens (ou com valor editado no caixa), o recibo tem uma única linha com a própria receita
+  IF doc_items IS NULL OR items_total IS DISTINCT FROM doc_total THEN
+    doc_items := jsonb_build_array(jsonb_build_object(
+      'description', doc_description,
+      'quantity', 1,
+      'price', doc_total
+    ));
+  END IF;
+
+  -- O contador fica bloqueado até o fim da transação, então emissões simultâneas
+  -- esperam a vez e um número nunca é reaproveitado, mesmo após uma exclusão
+  INSERT INTO public.document_counters (kind, last_number)
+  VALUES (doc_kind, 1)
+  ON CONFLICT (owner_id, kind) DO UPDATE
+    SET last_number = public.document_counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  SELECT jsonb_build_object(
+    'studio_name', s.studio_name,
+    'document', s.document,
+    'email', s.email,
+    'phone', s.phone,
+    'address', s.address,
+    'pix_key', s.pix_key,
+    'pix_merchant_name', s.pix_merchant_name,
+    'pix_merchant_city', s.pix_merchant_city
+  ) INTO studio_header
+  FROM public.studio_settings s
+  WHERE s.owner_id = auth.uid();
+
+  INSERT INTO public.documents (
+    kind, number, transaction_id, appointment_id, client_id, client_name,
+    description, items, total, issue_date, studio
+  ) VALUES (
+    doc_kind,
+    next_number,
+    p_transaction_id,
+    appointment_row.id,
+    doc_client_id,
+    (SELECT name FROM public.clients WHERE id = doc_client_id),
+    doc_description,
+    doc_items,
+    doc_total,
+    doc_date,
+    COALESCE(studio_header, '{}'::jsonb)
+  )
+  RETURNING * INTO issued;
+
+  RETURN issued;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,45 @@
+-- Documentos emitidos e anotações também contam como histórico do cliente: sem
+-- destino e sem p_detach, a exclusão é recusada em vez de apagá-los em silêncio
+CREATE OR REPLACE FUNCTION public.delete_client(
+  p_client_id UUID,
+  p_reassign_to UUID DEFAULT NULL,
+  p_detach BOOLEAN DEFAULT false
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.clients WHERE id = p_client_id) THEN
+    RAISE EXCEPTION 'Cliente % não encontrado', p_client_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_reassign_to IS NOT NULL THEN
+    IF p_reassign_to = p_client_id OR NOT EXISTS (SELECT 1 FROM public.clients WHERE id = p_reassign_to) THEN
+      RAISE EXCEPTION 'Cliente de destino inválido'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.appointments SET client_id = p_reassign_to WHERE client_id = p_client_id;
+    UPDATE public.transactions SET client_id = p_reassign_to WHERE client_id = p_client_id;
+    UPDATE public.receivables SET client_id = p_reassign_to WHERE client_id = p_client_id;
+    UPDATE public.quotes SET client_id = p_reassign_to WHERE client_id = p_client_id;
+    UPDATE public.documents SET client_id = p_reassign_to WHERE client_id = p_client_id;
+    UPDATE public.client_notes SET client_id = p_reassign_to WHERE client_id = p_client_id;
+  ELSIF p_detach THEN
+    -- Documentos já guardam o nome do cliente; as anotações vão junto com ele
+    UPDATE public.appointments SET client_id = NULL WHERE client_id = p_client_id;
+    UPDATE public.transactions SET client_id = NULL WHERE client_id = p_client_id;
+    UPDATE public.receivables SET client_id = NULL WHERE client_id = p_client_id;
+    UPDATE public.quotes SET client_id = NULL WHERE client_id = p_client_id;
+  ELSIF EXISTS (SELECT 1 FROM public.appointments WHERE client_id = p_client_id)
+     OR EXISTS (SELECT 1 FROM public.transactions WHERE client_id = p_client_id)
+     OR EXISTS (SELECT 1 FROM public.receivables WHERE client_id = p_client_id)
+     OR EXISTS (SELECT 1 FROM public.quotes WHERE client_id = p_client_id)
+     OR EXISTS (SELECT 1 FROM public.documents WHERE client_id = p_client_id)
+     OR EXISTS (SELECT 1 FROM public.client_notes WHERE client_id = p_client_id) THEN
+    RAISE EXCEPTION 'Cliente possui histórico vinculado; transfira-o ou desvincule-o antes de excluir'
+      USING ERRCODE = '23503';
+  END IF;
+
+  DELETE FROM public.clients WHERE id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;